@@ -1,9 +1,8 @@
-import { useState } from "react";
-import { AuthContext, AuthState } from "./authContext";
+import { AuthContext, AuthMatch, authPersistence } from "./authContext";
 import { AuthStatus, UserProfile, ErrorDisplay } from "./components";
 
 function App() {
-  const [authState, setAuthState] = useState<AuthState>({
+  const [authState, setAuthState] = authPersistence.usePersistedState({
     status: "idle",
   });
 
@@ -112,49 +111,48 @@ function App() {
 
         <AuthStatus />
 
-        {/* Only render UserProfile when authenticated */}
-        {authState.status === "authenticated" && <UserProfile />}
+        {/* ErrorDisplay renders nothing unless there's an error */}
+        <ErrorDisplay />
 
-        {/* Only render ErrorDisplay when there's an error */}
-        {authState.status === "error" && <ErrorDisplay />}
-
-        {authState.status === "loading" && (
-          <div style={{ marginTop: "1rem", textAlign: "center" }}>
-            Loading: {authState.message || "Please wait..."}
-          </div>
-        )}
-
-        {authState.status === "authenticating" && (
-          <div style={{ marginTop: "1rem", textAlign: "center" }}>
-            Authenticating with {authState.provider}...
-          </div>
-        )}
-
-        {authState.status === "locked" && (
-          <div
-            style={{
-              marginTop: "1rem",
-              padding: "1rem",
-              background: "#fff3cd",
-              borderRadius: "8px",
-            }}
-          >
-            <h3>🔒 Account Locked</h3>
-            <p>
-              <strong>Reason:</strong> {authState.reason}
-            </p>
-            <p>
-              <strong>Unlock at:</strong>{" "}
-              {authState.unlockAt.toLocaleString()}
-            </p>
-          </div>
-        )}
-
-        {authState.status === "refreshing" && (
-          <div style={{ marginTop: "1rem", textAlign: "center" }}>
-            Refreshing session for {authState.user.name}...
-          </div>
-        )}
+        {/* Each render function receives the narrowed variant */}
+        <AuthMatch
+          authenticated={() => <UserProfile />}
+          loading={(auth) => (
+            <div style={{ marginTop: "1rem", textAlign: "center" }}>
+              Loading: {auth.message || "Please wait..."}
+            </div>
+          )}
+          authenticating={(auth) => (
+            <div style={{ marginTop: "1rem", textAlign: "center" }}>
+              Authenticating with {auth.provider}...
+            </div>
+          )}
+          locked={(auth) => (
+            <div
+              style={{
+                marginTop: "1rem",
+                padding: "1rem",
+                background: "#fff3cd",
+                borderRadius: "8px",
+              }}
+            >
+              <h3>🔒 Account Locked</h3>
+              <p>
+                <strong>Reason:</strong> {auth.reason}
+              </p>
+              <p>
+                <strong>Unlock at:</strong>{" "}
+                {auth.unlockAt.toLocaleString()}
+              </p>
+            </div>
+          )}
+          refreshing={(auth) => (
+            <div style={{ marginTop: "1rem", textAlign: "center" }}>
+              Refreshing session for {auth.user.name}...
+            </div>
+          )}
+          otherwise={() => null}
+        />
       </div>
     </AuthContext.Provider>
   );
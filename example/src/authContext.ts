@@ -1,4 +1,7 @@
-import { createDiscriminatedContext } from "@bender-tools/react-discriminated-union-context";
+import {
+  createDiscriminatedContext,
+  createPersistence,
+} from "@bender-tools/react-discriminated-union-context";
 
 type User = {
   id: string;
@@ -43,5 +46,18 @@ export type AuthState =
   | { status: "locked"; reason: string; unlockAt: Date };
 
 // Create the discriminated context
-export const { Context: AuthContext, useContext: useAuthContext } =
-  createDiscriminatedContext<AuthState, "status">("status");
+export const {
+  Context: AuthContext,
+  useContext: useAuthContext,
+  useContextIf: useAuthContextIf,
+  Match: AuthMatch,
+} = createDiscriminatedContext<AuthState, "status">("status");
+
+// Keep settled states across reloads; transient ones like "loading" are never saved
+export const authPersistence = createPersistence<AuthState, "status">(
+  "status",
+  {
+    key: "example-auth",
+    variants: ["idle", "authenticated", "error", "locked"],
+  },
+);
@@ -1,8 +1,15 @@
-import { useAuthContext } from "../authContext";
+import { useAuthContextIf } from "../authContext";
 
 // Component that only renders when there's an error (narrowed type)
+// It gates itself with useAuthContextIf, so parents don't need a status check.
 export function ErrorDisplay() {
-  const { error, errorCode, retryable } = useAuthContext("error");
+  const auth = useAuthContextIf("error");
+
+  if (auth === null) {
+    return null;
+  }
+
+  const { error, errorCode, retryable } = auth;
 
   return (
     <div
@@ -31,8 +38,8 @@ export function ErrorDisplay() {
       <p
         style={{ fontSize: "0.8rem", color: "#666", marginTop: "1rem" }}
       >
-        This component uses <code>useAuthContext("error")</code> which
-        narrows the type and throws if the status doesn't match.
+        This component uses <code>useAuthContextIf("error")</code> which
+        narrows the type and returns null if the status doesn't match.
       </p>
     </div>
   );
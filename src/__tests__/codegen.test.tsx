@@ -0,0 +1,348 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert";
+import { spawnSync } from "node:child_process";
+import {
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  generateDiscriminatedContexts,
+  SchemaCodegenError,
+} from "../codegen.js";
+
+// =============================================================================
+// Test Documents
+// =============================================================================
+
+const petStore = {
+  openapi: "3.0.3",
+  components: {
+    schemas: {
+      Pet: {
+        description: "A pet in the store.",
+        oneOf: [
+          { $ref: "#/components/schemas/Cat" },
+          { $ref: "#/components/schemas/Dog" },
+        ],
+        discriminator: {
+          propertyName: "petType",
+          mapping: {
+            cat: "#/components/schemas/Cat",
+            kitten: "#/components/schemas/Cat",
+            lizard: "Lizard",
+          },
+        },
+      },
+      NamedPet: {
+        type: "object",
+        required: ["name", "petType"],
+        properties: {
+          name: { type: "string", description: "The pet's name." },
+          petType: { type: "string" },
+        },
+      },
+      Cat: {
+        allOf: [
+          { $ref: "#/components/schemas/NamedPet" },
+          {
+            type: "object",
+            properties: { lives: { type: "integer" } },
+          },
+        ],
+      },
+      Dog: {
+        type: "object",
+        required: ["petType", "bark"],
+        properties: {
+          petType: { type: "string" },
+          bark: { type: "string", enum: ["woof", "yap"] },
+          "nick-name": { type: "string", nullable: true },
+          tags: { type: "array", items: { type: "string" } },
+        },
+      },
+      Lizard: {
+        type: "object",
+        properties: {
+          petType: { type: "string" },
+          owner: { $ref: "#/components/schemas/Owner" },
+        },
+      },
+      Owner: {
+        type: "object",
+        required: ["name"],
+        properties: { name: { type: "string" } },
+      },
+    },
+  },
+};
+
+const event = {
+  $schema: "https://json-schema.org/draft/2020-12/schema",
+  oneOf: [
+    { $ref: "#/$defs/click" },
+    {
+      type: "object",
+      required: ["kind", "key"],
+      properties: {
+        kind: { const: "key-press" },
+        key: { type: "string" },
+      },
+    },
+  ],
+  $defs: {
+    click: {
+      type: "object",
+      required: ["kind", "x"],
+      properties: {
+        kind: { enum: ["click"] },
+        x: { type: ["number", "null"] },
+      },
+    },
+  },
+};
+
+const directory = mkdtempSync(join(tmpdir(), "codegen-"));
+const indexPath = fileURLToPath(
+  new URL("../index.js", import.meta.url),
+);
+const cliPath = fileURLToPath(new URL("../cli.ts", import.meta.url));
+
+after(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+/**
+ * Writes a generated module next to the other test output and imports it.
+ */
+async function importGenerated(
+  name: string,
+  source: string,
+): Promise<Record<string, unknown>> {
+  const file = join(directory, `${name}.ts`);
+  writeFileSync(file, source);
+  return (await import(file)) as Record<string, unknown>;
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("generateDiscriminatedContexts", () => {
+  it("should narrow members by the mapping, or else by their schema's name", () => {
+    const source = generateDiscriminatedContexts(petStore);
+
+    assert.match(
+      source,
+      /import \{ createDiscriminatedContext \} from "@bender-tools\/react-discriminated-union-context";/,
+    );
+    assert.match(
+      source,
+      /\/\*\*\n \* A pet in the store\.\n \*\/\nexport type Pet = Cat \| Dog \| Lizard;/,
+    );
+    assert.match(
+      source,
+      /export type Cat = \{\n {2}\/\*\*\n {3}\* The pet's name\.\n {3}\*\/\n {2}name: string;\n {2}petType: "cat" \| "kitten";\n {2}lives\?: number;\n\};/,
+    );
+    assert.match(
+      source,
+      /export type Dog = \{\n {2}petType: "Dog";\n {2}bark: "woof" \| "yap";\n {2}"nick-name"\?: string \| null;\n {2}tags\?: string\[\];\n\};/,
+    );
+    assert.match(source, / {2}petType: "lizard";\n {2}owner\?: Owner;/);
+    assert.match(
+      source,
+      /export type Owner = \{\n {2}name: string;\n\};/,
+    );
+    assert.match(
+      source,
+      /export const petContext = createDiscriminatedContext<Pet, "petType">\(\n {2}"petType",/,
+    );
+    assert.match(
+      source,
+      /export const usePet = petContext\.useContext;/,
+    );
+    assert.doesNotMatch(source, /NamedPet|validate/);
+  });
+
+  it("should find unions in JSON Schema by their constant property", () => {
+    const source = generateDiscriminatedContexts(event, {
+      name: "UiEvent",
+      importPath: "my-lib",
+      source: "event.json",
+    });
+
+    assert.match(
+      source,
+      /^\/\/ Generated from event\.json by discriminated-union-codegen\. Do not edit\./,
+    );
+    assert.match(source, /from "my-lib";/);
+    assert.match(
+      source,
+      /export type UiEvent = Click \| UiEventKeyPress;/,
+    );
+    assert.match(
+      source,
+      /export type UiEventKeyPress = \{\n {2}kind: "key-press";\n {2}key: string;\n\};/,
+    );
+    assert.match(source, / {2}x: number \| null;/);
+    assert.match(
+      source,
+      /createDiscriminatedContext<UiEvent, "kind">\(/,
+    );
+  });
+
+  it("should turn the sentinel off for a 'default' variant", () => {
+    const source = generateDiscriminatedContexts({
+      title: "Theme",
+      oneOf: [
+        { properties: { mode: { const: "default" } } },
+        { properties: { mode: { const: "custom" } } },
+      ],
+    });
+
+    assert.match(source, / {4}name: "Theme",\n {4}sentinel: false,\n/);
+    assert.doesNotMatch(
+      generateDiscriminatedContexts(event, { name: "UiEvent" }),
+      /sentinel/,
+    );
+  });
+
+  it("should generate validators and pass them to the context", async () => {
+    const module = await importGenerated(
+      "pets",
+      generateDiscriminatedContexts(petStore, {
+        validators: true,
+        importPath: indexPath,
+      }),
+    );
+    const isPet = module.isPet as (value: unknown) => boolean;
+
+    assert.strictEqual(
+      isPet({ petType: "kitten", name: "Tom", lives: 9 }),
+      true,
+    );
+    assert.strictEqual(
+      isPet({ petType: "Dog", bark: "woof", "nick-name": null }),
+      true,
+    );
+    assert.strictEqual(
+      isPet({ petType: "lizard", owner: { name: "Ada" } }),
+      true,
+    );
+    assert.strictEqual(isPet({ petType: "cat", lives: 9 }), false);
+    assert.strictEqual(
+      isPet({ petType: "cat", name: "Tom", lives: 1.5 }),
+      false,
+    );
+    assert.strictEqual(isPet({ petType: "Dog", bark: "meow" }), false);
+    assert.strictEqual(
+      isPet({ petType: "Dog", bark: "woof", tags: ["good", 1] }),
+      false,
+    );
+    assert.strictEqual(isPet({ petType: "lizard", owner: {} }), false);
+    assert.strictEqual(isPet({ petType: "fish" }), false);
+
+    const petContext = module.petContext as { discriminantKey: string };
+    assert.strictEqual(petContext.discriminantKey, "petType");
+    assert.strictEqual(typeof module.usePet, "function");
+  });
+
+  describe("errors", () => {
+    const assertCodegenError = (
+      document: unknown,
+      message: RegExp,
+      pointer: string,
+    ) =>
+      assert.throws(
+        () => generateDiscriminatedContexts(document),
+        (error: unknown) => {
+          assert.ok(error instanceof SchemaCodegenError);
+          assert.match(error.message, message);
+          assert.strictEqual(error.pointer, pointer);
+          return true;
+        },
+      );
+
+    it("should throw without a discriminated union", () => {
+      assertCodegenError(
+        { components: { schemas: { Name: { type: "string" } } } },
+        /Found no oneOf/,
+        "#",
+      );
+    });
+
+    it("should throw on a $ref it can't resolve", () => {
+      assertCodegenError(
+        {
+          oneOf: [{ $ref: "#/$defs/missing" }],
+          discriminator: { propertyName: "kind" },
+        },
+        /Unresolvable \$ref/,
+        "#/$defs/missing",
+      );
+      assertCodegenError(
+        {
+          oneOf: [{ $ref: "other.json#/Pet" }],
+          discriminator: { propertyName: "kind" },
+        },
+        /Only local \$refs/,
+        "other.json#/Pet",
+      );
+    });
+
+    it("should throw when a member's discriminant value is unknown", () => {
+      assertCodegenError(
+        {
+          oneOf: [
+            {
+              type: "object",
+              properties: { kind: { type: "string" } },
+            },
+          ],
+          discriminator: { propertyName: "kind" },
+        },
+        /Can't tell the kind/,
+        "#/oneOf/0",
+      );
+    });
+  });
+});
+
+describe("discriminated-union-codegen", () => {
+  const run = (...args: string[]) =>
+    spawnSync(process.execPath, ["--import", "tsx", cliPath, ...args], {
+      encoding: "utf8",
+      timeout: 60_000,
+    });
+
+  it("should write the generated module", () => {
+    const input = join(directory, "event.json");
+    const output = join(directory, "event.ts");
+    writeFileSync(input, JSON.stringify(event));
+
+    const result = run(input, "--name", "UiEvent", "--out", output);
+
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.strictEqual(
+      readFileSync(output, "utf8"),
+      generateDiscriminatedContexts(event, {
+        name: "UiEvent",
+        source: "event.json",
+      }),
+    );
+  });
+
+  it("should report errors with the schema's pointer", () => {
+    const input = join(directory, "empty.json");
+    writeFileSync(input, "{}");
+
+    const result = run(input);
+
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stderr, /empty\.json#: Found no oneOf/);
+  });
+});
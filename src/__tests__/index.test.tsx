@@ -1,8 +1,18 @@
-import { describe, it } from "node:test";
+import { describe, it, mock } from "node:test";
 import assert from "node:assert";
-import React from "react";
-import { renderHook } from "@testing-library/react";
-import { createDiscriminatedContext } from "../index.js";
+import React, { Suspense, useState } from "react";
+import { act, render, renderHook } from "@testing-library/react";
+import {
+  createDiscriminatedContext,
+  createDiscriminatedStore,
+  DiscriminantMismatchError,
+  InvalidProviderValueError,
+  MissingProviderError,
+  type DiscriminantValues,
+  type KeysByDiscriminantValue,
+  type StandardSchemaV1,
+  type UnionIntrospection,
+} from "../index.js";
 
 // =============================================================================
 // Test Types
@@ -20,6 +30,44 @@ type AuthState =
   | { status: "authenticated"; user: User }
   | { status: "error"; error: string; retryable: boolean };
 
+type Session =
+  | { status: "idle"; role: "guest" }
+  | { status: "authenticated"; role: "admin"; auditLog: string[] }
+  | { status: "authenticated"; role: "member"; teams: string[] };
+
+type Preference =
+  | { mode: "default" }
+  | { mode: "custom"; color: string };
+
+type ApiResponse = {
+  meta: { requestId: string };
+  result:
+    | { kind: "ok"; data: string[] }
+    | { kind: "fail"; reason: string };
+};
+
+/**
+ * Validates a thrown DiscriminantMismatchError with the given message.
+ */
+function mismatchError(message: string) {
+  return (error: unknown) => {
+    assert.ok(error instanceof DiscriminantMismatchError);
+    assert.strictEqual(error.message, message);
+    return true;
+  };
+}
+
+/**
+ * Validates a thrown MissingProviderError with the given message.
+ */
+function missingProviderError(message: string) {
+  return (error: unknown) => {
+    assert.ok(error instanceof MissingProviderError);
+    assert.strictEqual(error.message, message);
+    return true;
+  };
+}
+
 // =============================================================================
 // Compile-time Type Tests
 // These tests verify TypeScript type narrowing at compile time.
@@ -99,6 +147,190 @@ function _compileTimeTypeTests() {
     const _u: User = user;
   };
 
+  // Test: an array of values narrows to exactly those variants
+  const _testMultipleValues = () => {
+    const auth = useContext(["loading", "error"]);
+    const _status: "loading" | "error" = auth.status;
+
+    if (auth.status === "error") {
+      const _error: string = auth.error;
+    }
+
+    // @ts-expect-error - user property doesn't exist on loading or error variants
+    const _user = auth.user;
+
+    // @ts-expect-error - 'unknown' is not a valid discriminant value
+    useContext(["loading", "unknown"]);
+  };
+
+  // Test: fields common to all listed variants are non-optional
+  const _testMultipleValuesCommonFields = () => {
+    type SessionState =
+      | { status: "idle" }
+      | { status: "authenticated"; user: User; token: string }
+      | { status: "refreshing"; user: User };
+
+    const session = createDiscriminatedContext<SessionState, "status">(
+      "status",
+    );
+
+    const state = session.useContext(["authenticated", "refreshing"]);
+    const _user: User = state.user;
+    const _name: string = state.user.name;
+  };
+
+  // Test: useContextIf narrows and includes null
+  const _testContextIf = () => {
+    const { useContextIf } = createDiscriminatedContext<AuthState, "status">(
+      "status",
+    );
+
+    const auth = useContextIf("authenticated");
+    // @ts-expect-error - auth may be null
+    const _unchecked: User = auth.user;
+
+    if (auth !== null) {
+      const _status: "authenticated" = auth.status;
+      const _user: User = auth.user;
+    }
+
+    const multiple = useContextIf(["loading", "error"]);
+    if (multiple !== null) {
+      const _status: "loading" | "error" = multiple.status;
+    }
+
+    // @ts-expect-error - 'default' is not accepted by useContextIf
+    useContextIf("default");
+  };
+
+  // Test: Match requires every case and passes narrowed variants
+  const _testMatch = () => {
+    const { Match } = createDiscriminatedContext<AuthState, "status">(
+      "status",
+    );
+
+    const _exhaustive = (
+      <Match
+        idle={() => null}
+        loading={(auth) => auth.message}
+        authenticated={(auth) => auth.user.name}
+        error={(auth) => {
+          const _retryable: boolean = auth.retryable;
+          // @ts-expect-error - user property doesn't exist on error variant
+          return auth.user;
+        }}
+      />
+    );
+
+    const _missing = (
+      // @ts-expect-error - the 'error' case is missing and there is no otherwise
+      <Match
+        idle={() => null}
+        loading={() => null}
+        authenticated={() => null}
+      />
+    );
+
+    const _withOtherwise = (
+      <Match
+        authenticated={(auth) => auth.user.name}
+        otherwise={(auth) => auth.status}
+      />
+    );
+  };
+
+  // Test: useSelector passes the narrowed value to the selector
+  const _testSelector = () => {
+    const { useSelector } = createDiscriminatedContext<AuthState, "status">(
+      "status",
+    );
+
+    const _name: string = useSelector(
+      "authenticated",
+      (auth) => auth.user.name,
+    );
+    const _status: AuthState["status"] = useSelector(
+      "default",
+      (auth) => auth.status,
+    );
+    const _error: string | undefined = useSelector(
+      ["loading", "error"],
+      (auth) => (auth.status === "error" ? auth.error : undefined),
+    );
+
+    // @ts-expect-error - user property doesn't exist on error variant
+    useSelector("error", (auth) => auth.user);
+  };
+
+  // Test: rejectOn only accepts discriminant values
+  const _testRejectOn = () => {
+    useContext("authenticated", { suspend: true, rejectOn: "error" });
+    useContext("authenticated", { rejectOn: ["idle", "error"] });
+
+    // @ts-expect-error - 'failed' is not a valid discriminant value
+    useContext("authenticated", { rejectOn: "failed" });
+  };
+
+  // Test: withVariant injects the narrowed value and omits its prop
+  const _testWithVariant = () => {
+    const { withVariant } = createDiscriminatedContext<
+      AuthState,
+      "status"
+    >("status");
+
+    type Authenticated = Extract<
+      AuthState,
+      { status: "authenticated" }
+    >;
+    const Profile = (_props: {
+      auth: Authenticated;
+      compact: boolean;
+    }) => null;
+    const AnyStatus = (_props: { auth: AuthState }) => null;
+    const Name = (_props: { auth: string }) => null;
+
+    const WrappedProfile = withVariant("authenticated", {
+      prop: "auth",
+    })(Profile);
+    const _profile = <WrappedProfile compact />;
+    const _anyStatus = withVariant(["idle", "error"], { prop: "auth" })(
+      AnyStatus,
+    );
+
+    // @ts-expect-error - the injected prop can't be passed
+    <WrappedProfile compact auth={{} as Authenticated} />;
+
+    // @ts-expect-error - the component doesn't accept the narrowed value
+    withVariant("authenticated", { prop: "auth" })(Name);
+
+    // @ts-expect-error - the error variant has no user
+    withVariant("error", { prop: "auth" })(Profile);
+  };
+
+  // Test: Lifecycle hooks narrow their callback arguments
+  const _testLifecycleHooks = () => {
+    const { useOnEnter, useOnExit, useOnTransition } =
+      createDiscriminatedContext<AuthState, "status">("status");
+
+    useOnEnter("error", (auth) => {
+      const _error: string = auth.error;
+    });
+    useOnExit(["authenticated", "error"], (previous, current) => {
+      const _status: "authenticated" | "error" = previous.status;
+      const _current: AuthState["status"] = current.status;
+    });
+    useOnTransition("loading", "authenticated", (from, to) => {
+      const _message: string | undefined = from.message;
+      const _name: string = to.user.name;
+    });
+
+    // @ts-expect-error - user doesn't exist on the error variant
+    useOnEnter("error", (auth) => auth.user);
+
+    // @ts-expect-error - 'done' is not a valid discriminant value
+    useOnTransition("loading", "done", () => {});
+  };
+
   // Test: Destructuring works with default
   const _testDestructuringDefault = () => {
     const { status, user, error } = useContext("default");
@@ -106,6 +338,114 @@ function _compileTimeTypeTests() {
     const _u: User | undefined = user;
     const _e: string | undefined = error;
   };
+
+  // Test: Dotted paths narrow the nested union and keep the surrounding object
+  const _testNestedPath = () => {
+    const api = createDiscriminatedContext<ApiResponse, "result.kind">(
+      "result.kind",
+    );
+
+    const _values: DiscriminantValues<ApiResponse, "result.kind"> =
+      "ok";
+    const _keys: KeysByDiscriminantValue<ApiResponse, "result.kind"> = {
+      ok: "data",
+      fail: "reason",
+    };
+
+    const ok = api.useContext("ok");
+    const _data: string[] = ok.result.data;
+    const _requestId: string = ok.meta.requestId;
+
+    // @ts-expect-error - reason only exists on the fail variant
+    ok.result.reason;
+
+    // @ts-expect-error - 'pending' is not a value of result.kind
+    api.useContext("pending");
+
+    // @ts-expect-error - 'result.type' is not a path of ApiResponse
+    createDiscriminatedContext<ApiResponse, "result.type">(
+      "result.type",
+    );
+  };
+
+  // Test: Composite patterns narrow on every listed key
+  const _testCompositePattern = () => {
+    const session = createDiscriminatedContext<Session, "status">(
+      "status",
+    );
+
+    const admin = session.useContext({
+      status: "authenticated",
+      role: "admin",
+    });
+    const _auditLog: string[] = admin.auditLog;
+
+    const authenticated = session.useContext({
+      status: "authenticated",
+    });
+    const _role: "admin" | "member" = authenticated.role;
+
+    const member = session.useContextIf({ role: "member" });
+    const _teams: string[] | undefined = member?.teams;
+
+    const _discriminants: UnionIntrospection<
+      Session,
+      "status"
+    >["discriminants"] = { status: "idle", role: "guest" };
+
+    // @ts-expect-error - teams doesn't exist on the admin variant
+    admin.teams;
+
+    // @ts-expect-error - 'owner' is not a value of role
+    session.useContext({ role: "owner" });
+
+    // @ts-expect-error - auditLog is not a literal key
+    session.useContext({ status: "authenticated", auditLog: [] });
+  };
+
+  // Test: A 'default' variant replaces the sentinel
+  const _testDefaultVariant = () => {
+    const auth = createDiscriminatedContext<AuthState, "status">(
+      "status",
+    );
+    const _status: AuthState["status"] = auth.useUnion().status;
+    const _user: User | undefined = auth.useContext("default").user;
+
+    const preference = createDiscriminatedContext<Preference, "mode">(
+      "mode",
+      { sentinel: false },
+    );
+    const _mode: "default" = preference.useContext("default").mode;
+    const _color: string | undefined = preference.useUnion().color;
+
+    // @ts-expect-error - the default variant has no color
+    preference.useContext("default").color;
+
+    // @ts-expect-error - unions with a 'default' variant must turn the sentinel off
+    createDiscriminatedContext<Preference, "mode">("mode");
+
+    createDiscriminatedContext<Preference, "mode">("mode", {
+      // @ts-expect-error - the sentinel can't stay on
+      sentinel: true,
+    });
+
+    createDiscriminatedContext<AuthState, "status">("status", {
+      // @ts-expect-error - the sentinel is only turned off for a 'default' variant
+      sentinel: false,
+    });
+  };
+
+  // Test: Declared discriminant values must belong to the union
+  const _testDeclaredValues = () => {
+    createDiscriminatedContext<AuthState, "status">("status", {
+      values: ["idle", "loading", "authenticated", "error"],
+    });
+
+    createDiscriminatedContext<AuthState, "status">("status", {
+      // @ts-expect-error - 'pending' is not a value of status
+      values: ["idle", "pending"],
+    });
+  };
 }
 
 // =============================================================================
@@ -121,6 +461,7 @@ describe("createDiscriminatedContext", () => {
 
       assert.ok(result.Context, "Context should be defined");
       assert.ok(result.useContext, "useContext should be defined");
+      assert.ok(result.useContextIf, "useContextIf should be defined");
       assert.strictEqual(
         typeof result.useContext,
         "function",
@@ -306,6 +647,50 @@ describe("createDiscriminatedContext", () => {
     });
   });
 
+  describe("unions with a 'default' variant", () => {
+    const preference = createDiscriminatedContext<Preference, "mode">(
+      "mode",
+      { sentinel: false },
+    );
+    const wrapperFor =
+      (value: Preference) =>
+      ({ children }: { children: React.ReactNode }) => (
+        <preference.Context.Provider value={value}>
+          {children}
+        </preference.Context.Provider>
+      );
+
+    it("should narrow to the 'default' variant", () => {
+      const { result } = renderHook(
+        () => preference.useContext("default"),
+        { wrapper: wrapperFor({ mode: "default" }) },
+      );
+
+      assert.deepStrictEqual(result.current, { mode: "default" });
+    });
+
+    it("should throw when the value isn't in the 'default' variant", () => {
+      assert.throws(
+        () =>
+          renderHook(() => preference.useContext("default"), {
+            wrapper: wrapperFor({ mode: "custom", color: "teal" }),
+          }),
+        mismatchError("Expected mode=default, got custom"),
+      );
+    });
+
+    it("should read the whole union with useUnion", () => {
+      const { result } = renderHook(() => preference.useUnion(), {
+        wrapper: wrapperFor({ mode: "custom", color: "teal" }),
+      });
+
+      assert.deepStrictEqual(result.current, {
+        mode: "custom",
+        color: "teal",
+      });
+    });
+  });
+
   describe("throws when used outside Provider", () => {
     it("should throw descriptive error when no Provider exists", () => {
       const { useContext } = createDiscriminatedContext<
@@ -317,10 +702,9 @@ describe("createDiscriminatedContext", () => {
         () => {
           renderHook(() => useContext("default"));
         },
-        {
-          message:
-            "useContext must be used within a Provider. Wrap your component tree with <Context.Provider>.",
-        },
+        missingProviderError(
+          "useContext must be used within a Provider. Wrap your component tree with <Context.Provider>.",
+        ),
       );
     });
   });
@@ -344,9 +728,7 @@ describe("createDiscriminatedContext", () => {
         () => {
           renderHook(() => useContext("authenticated"), { wrapper });
         },
-        {
-          message: "Expected status=authenticated, got idle",
-        },
+        mismatchError("Expected status=authenticated, got idle"),
       );
     });
 
@@ -372,9 +754,7 @@ describe("createDiscriminatedContext", () => {
         () => {
           renderHook(() => useContext("loading"), { wrapper });
         },
-        {
-          message: "Expected status=loading, got error",
-        },
+        mismatchError("Expected status=loading, got error"),
       );
     });
 
@@ -399,182 +779,2066 @@ describe("createDiscriminatedContext", () => {
         () => {
           renderHook(() => useContext("idle"), { wrapper });
         },
-        {
-          message: "Expected status=idle, got authenticated",
-        },
+        mismatchError("Expected status=idle, got authenticated"),
       );
     });
   });
 
-  describe("different discriminant keys", () => {
-    type RequestState =
-      | { type: "pending" }
-      | { type: "success"; data: string }
-      | { type: "failure"; reason: string };
-
-    it("should work with 'type' as discriminant key", () => {
+  describe("error details", () => {
+    it("should expose the key, expected and actual values on mismatch errors", () => {
       const { Context, useContext } = createDiscriminatedContext<
-        RequestState,
-        "type"
-      >("type");
-
-      const testValue: RequestState = {
-        type: "success",
-        data: "Hello World",
-      };
+        AuthState,
+        "status"
+      >("status");
 
       const wrapper = ({ children }: { children: React.ReactNode }) => (
-        <Context.Provider value={testValue}>
+        <Context.Provider value={{ status: "idle" }}>
           {children}
         </Context.Provider>
       );
 
-      const { result } = renderHook(() => useContext("success"), {
-        wrapper,
-      });
-
-      assert.strictEqual(result.current.type, "success");
-      assert.strictEqual(result.current.data, "Hello World");
+      assert.throws(
+        () => {
+          renderHook(() => useContext(["authenticated", "error"]), {
+            wrapper,
+          });
+        },
+        {
+          name: "DiscriminantMismatchError",
+          discriminantKey: "status",
+          expected: ["authenticated", "error"],
+          actual: "idle",
+          contextName: undefined,
+        },
+      );
     });
 
-    type StepState =
-      | { step: 1; name: string }
-      | { step: 2; email: string }
-      | { step: 3; password: string };
-
-    it("should work with numeric discriminant values", () => {
+    it("should include the context name in errors and displayName", () => {
       const { Context, useContext } = createDiscriminatedContext<
-        StepState,
-        "step"
-      >("step");
+        AuthState,
+        "status"
+      >("status", { name: "AuthContext" });
 
-      const testValue: StepState = {
-        step: 2,
-        email: "test@example.com",
-      };
+      assert.strictEqual(Context.displayName, "AuthContext");
 
-      const wrapper = ({ children }: { children: React.ReactNode }) => (
-        <Context.Provider value={testValue}>
-          {children}
-        </Context.Provider>
+      assert.throws(
+        () => {
+          renderHook(() => useContext("idle"));
+        },
+        {
+          name: "MissingProviderError",
+          message:
+            "[AuthContext] useContext must be used within a Provider. Wrap your component tree with <Context.Provider>.",
+          discriminantKey: "status",
+          contextName: "AuthContext",
+        },
       );
 
-      const { result } = renderHook(() => useContext(2), { wrapper });
-
-      assert.strictEqual(result.current.step, 2);
-      assert.strictEqual(result.current.email, "test@example.com");
-    });
-
-    it("should throw for numeric discriminant mismatch", () => {
-      const { Context, useContext } = createDiscriminatedContext<
-        StepState,
-        "step"
-      >("step");
-
-      const testValue: StepState = { step: 1, name: "John" };
-
       const wrapper = ({ children }: { children: React.ReactNode }) => (
-        <Context.Provider value={testValue}>
+        <Context.Provider value={{ status: "idle" }}>
           {children}
         </Context.Provider>
       );
 
       assert.throws(
         () => {
-          renderHook(() => useContext(3), { wrapper });
+          renderHook(() => useContext("loading"), { wrapper });
         },
         {
-          message: "Expected step=3, got 1",
+          message: "[AuthContext] Expected status=loading, got idle",
+          contextName: "AuthContext",
         },
       );
     });
+  });
 
-    type BooleanDiscriminant =
-      | { active: true; data: string }
-      | { active: false; reason: string };
-
-    it("should work with boolean discriminant values", () => {
-      const { Context, useContext } = createDiscriminatedContext<
-        BooleanDiscriminant,
-        "active"
-      >("active");
+  describe("mismatch policies", () => {
+    const setup = (
+      options: Parameters<typeof createDiscriminatedContext>[1],
+      renderConsumer: (
+        auth: ReturnType<
+          typeof createDiscriminatedContext<AuthState, "status">
+        >,
+      ) => React.ReactNode,
+    ) => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+        options,
+      );
+      let setAuth: (value: AuthState) => void = () => {};
+
+      function Root({ children }: { children: React.ReactNode }) {
+        const [value, setValue] = useState<AuthState>({
+          status: "idle",
+        });
+        setAuth = setValue;
+        return (
+          <auth.StoreProvider value={value}>
+            {children}
+          </auth.StoreProvider>
+        );
+      }
+
+      function Consumer() {
+        return <>{renderConsumer(auth)}</>;
+      }
+
+      const { container } = render(
+        <Root>
+          <Suspense fallback="fallback">
+            <Consumer />
+          </Suspense>
+        </Root>,
+      );
 
-      const testValue: BooleanDiscriminant = {
-        active: true,
-        data: "test",
+      return {
+        container,
+        setAuth: (value: AuthState) =>
+          act(async () => {
+            setAuth(value);
+          }),
       };
+    };
 
-      const wrapper = ({ children }: { children: React.ReactNode }) => (
-        <Context.Provider value={testValue}>
-          {children}
-        </Context.Provider>
+    const user: User = { id: "1", name: "John", email: "john@example.com" };
+
+    it("should suspend until the expected variant is reached", async () => {
+      const { container, setAuth } = setup(
+        { onMismatch: "suspend" },
+        (auth) => auth.useContext("authenticated").user.name,
       );
 
-      const { result } = renderHook(() => useContext(true), {
-        wrapper,
+      assert.strictEqual(container.textContent, "fallback");
+
+      await setAuth({ status: "loading" });
+      assert.strictEqual(container.textContent, "fallback");
+
+      await setAuth({ status: "authenticated", user });
+      assert.strictEqual(container.textContent, "John");
+    });
+
+    it("should warn in development and render nothing in place of the nearest boundary", async () => {
+      const warn = mock.method(console, "warn", () => {});
+      const consoleError = mock.method(console, "error", () => {});
+
+      try {
+        const { container, setAuth } = setup(
+          { onMismatch: "warn" },
+          (auth) => {
+            function Name() {
+              return (
+                <>
+                  {auth.useSelector(
+                    "authenticated",
+                    (state) => state.user.name,
+                  )}
+                </>
+              );
+            }
+
+            return (
+              <>
+                Header:
+                <auth.DiscriminantBoundary>
+                  <Name />
+                </auth.DiscriminantBoundary>
+              </>
+            );
+          },
+        );
+
+        assert.strictEqual(container.textContent, "Header:");
+        assert.strictEqual(
+          warn.mock.calls[0]?.arguments[0],
+          "Expected status=authenticated, got idle",
+        );
+
+        await setAuth({ status: "authenticated", user });
+        assert.strictEqual(container.textContent, "Header:John");
+      } finally {
+        warn.mock.restore();
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should render a fallback under Context.Provider until the value changes", () => {
+      const warn = mock.method(console, "warn", () => {});
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">("status", {
+        onMismatch: { fallback: "Signed out" },
       });
 
-      assert.strictEqual(result.current.active, true);
-      assert.strictEqual(result.current.data, "test");
+      function Profile() {
+        return <>{auth.useContext("authenticated").user.name}</>;
+      }
+
+      function App({ value }: { value: AuthState }) {
+        return (
+          <auth.Context.Provider value={value}>
+            Header:
+            <auth.DiscriminantBoundary>
+              <Profile />
+            </auth.DiscriminantBoundary>
+          </auth.Context.Provider>
+        );
+      }
+
+      try {
+        const { container, rerender } = render(
+          <App value={{ status: "idle" }} />,
+        );
+
+        assert.strictEqual(container.textContent, "Header:Signed out");
+        assert.strictEqual(
+          warn.mock.calls[0]?.arguments[0],
+          "Expected status=authenticated, got idle",
+        );
+
+        rerender(<App value={{ status: "authenticated", user }} />);
+
+        assert.strictEqual(container.textContent, "Header:John");
+      } finally {
+        warn.mock.restore();
+        consoleError.mock.restore();
+      }
     });
-  });
 
-  describe("complex nested types", () => {
-    type ComplexState =
-      | { kind: "empty" }
-      | {
-          kind: "loaded";
-          data: {
-            items: Array<{ id: number; name: string }>;
-            metadata: { total: number; page: number };
-          };
-        };
+    it("should render the fallback a handler returns", () => {
+      const warn = mock.method(console, "warn", () => {});
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">("status");
+
+      function Profile() {
+        return (
+          <>
+            {
+              auth.useContext("authenticated", {
+                onMismatch: () => ({
+                  fallback: (error) => `Waiting, ${String(error.actual)}`,
+                }),
+              }).user.name
+            }
+          </>
+        );
+      }
+
+      try {
+        const { container } = render(
+          <auth.StoreProvider value={{ status: "loading" }}>
+            Header:
+            <auth.DiscriminantBoundary>
+              <Profile />
+            </auth.DiscriminantBoundary>
+          </auth.StoreProvider>,
+        );
+
+        assert.strictEqual(container.textContent, "Header:Waiting, loading");
+      } finally {
+        warn.mock.restore();
+        consoleError.mock.restore();
+      }
+    });
 
-    it("should handle deeply nested objects", () => {
-      const { Context, useContext } = createDiscriminatedContext<
-        ComplexState,
-        "kind"
-      >("kind");
+    it("should throw a fallback mismatch without a boundary", () => {
+      const warn = mock.method(console, "warn", () => {});
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">("status", {
+        onMismatch: "warn",
+      });
 
-      const testValue: ComplexState = {
-        kind: "loaded",
-        data: {
-          items: [
-            { id: 1, name: "Item 1" },
-            { id: 2, name: "Item 2" },
-          ],
-          metadata: { total: 2, page: 1 },
+      try {
+        assert.throws(
+          () => {
+            renderHook(() => auth.useContext("authenticated"), {
+              wrapper: ({ children }) => (
+                <auth.Provider value={{ status: "idle" }}>
+                  {children}
+                </auth.Provider>
+              ),
+            });
+          },
+          { message: "Expected status=authenticated, got idle" },
+        );
+      } finally {
+        warn.mock.restore();
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should call the handler and apply the behavior it returns", () => {
+      const seen: unknown[] = [];
+
+      const { container } = setup(
+        {
+          onMismatch: (error) => {
+            seen.push(error.actual);
+            return "suspend";
+          },
         },
-      };
+        (auth) => auth.useContext("error").error,
+      );
+
+      assert.strictEqual(container.textContent, "fallback");
+      assert.deepStrictEqual(seen, ["idle"]);
+    });
+
+    it("should throw when the handler returns nothing", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status", { onMismatch: () => {} });
 
       const wrapper = ({ children }: { children: React.ReactNode }) => (
-        <Context.Provider value={testValue}>
+        <Context.Provider value={{ status: "idle" }}>
           {children}
         </Context.Provider>
       );
 
-      const { result } = renderHook(() => useContext("loaded"), {
-        wrapper,
-      });
-
-      assert.strictEqual(result.current.kind, "loaded");
-      assert.strictEqual(result.current.data.items.length, 2);
-      assert.strictEqual(result.current.data.items[0]?.name, "Item 1");
-      assert.strictEqual(result.current.data.metadata.total, 2);
+      assert.throws(() => {
+        renderHook(() => useContext("loading"), { wrapper });
+      }, mismatchError("Expected status=loading, got idle"));
     });
-  });
-
-  describe("multiple independent contexts", () => {
-    it("should allow creating and using multiple contexts independently", () => {
-      type ThemeState =
-        | { mode: "light" }
-        | { mode: "dark"; accent: string };
 
-      const authContext = createDiscriminatedContext<
+    it("should let a call override the context's policy", () => {
+      const { StoreProvider, useContext } = createDiscriminatedContext<
         AuthState,
         "status"
-      >("status");
-      const themeContext = createDiscriminatedContext<
+      >("status", { onMismatch: "suspend" });
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <StoreProvider value={{ status: "idle" }}>
+          {children}
+        </StoreProvider>
+      );
+
+      assert.throws(() => {
+        renderHook(
+          () => useContext("loading", { onMismatch: "throw" }),
+          {
+            wrapper,
+          },
+        );
+      }, mismatchError("Expected status=loading, got idle"));
+    });
+
+    it("should require a StoreProvider to suspend", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={{ status: "idle" }}>
+          {children}
+        </Context.Provider>
+      );
+
+      assert.throws(() => {
+        renderHook(
+          () => useContext("loading", { onMismatch: "suspend" }),
+          {
+            wrapper,
+          },
+        );
+      }, missingProviderError("Suspending on a discriminant mismatch requires a StoreProvider. Wrap your component tree with <StoreProvider>."));
+    });
+  });
+
+  describe("suspending until a variant", () => {
+    class TestErrorBoundary extends React.Component<
+      { children: React.ReactNode },
+      { error: unknown }
+    > {
+      state = { error: null as unknown };
+
+      static getDerivedStateFromError(error: unknown) {
+        return { error };
+      }
+
+      render() {
+        const { error } = this.state;
+        return error instanceof DiscriminantMismatchError
+          ? `failed: ${String(error.actual)}`
+          : this.props.children;
+      }
+    }
+
+    const setup = () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      let setAuth: (value: AuthState) => void = () => {};
+
+      function Root({ children }: { children: React.ReactNode }) {
+        const [value, setValue] = useState<AuthState>({
+          status: "loading",
+        });
+        setAuth = setValue;
+        return (
+          <auth.StoreProvider value={value}>
+            {children}
+          </auth.StoreProvider>
+        );
+      }
+
+      function UserName() {
+        const { user } = auth.useContext("authenticated", {
+          suspend: true,
+          rejectOn: "error",
+        });
+        return <>{user.name}</>;
+      }
+
+      const { container } = render(
+        <Root>
+          <TestErrorBoundary>
+            <Suspense fallback="loading">
+              <UserName />
+            </Suspense>
+          </TestErrorBoundary>
+        </Root>,
+      );
+
+      return {
+        container,
+        setAuth: (value: AuthState) =>
+          act(async () => {
+            setAuth(value);
+          }),
+      };
+    };
+
+    it("should render once the Provider value reaches the variant", async () => {
+      const { container, setAuth } = setup();
+
+      assert.strictEqual(container.textContent, "loading");
+
+      await setAuth({
+        status: "authenticated",
+        user: { id: "1", name: "John", email: "john@example.com" },
+      });
+
+      assert.strictEqual(container.textContent, "John");
+    });
+
+    it("should throw to the error boundary on a rejectOn variant", async () => {
+      const consoleError = mock.method(console, "error", () => {});
+
+      try {
+        const { container, setAuth } = setup();
+
+        await setAuth({
+          status: "error",
+          error: "Invalid credentials",
+          retryable: true,
+        });
+
+        assert.strictEqual(container.textContent, "failed: error");
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should not suspend on a store outside a nearer Context.Provider", () => {
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">("status");
+
+      function UserName() {
+        const { user } = auth.useContext("authenticated", { suspend: true });
+        return <>{user.name}</>;
+      }
+
+      try {
+        // The store already matches, so waiting on it would retry forever
+        assert.throws(
+          () =>
+            render(
+              <auth.StoreProvider
+                value={{
+                  status: "authenticated",
+                  user: { id: "1", name: "John", email: "john@example.com" },
+                }}
+              >
+                <auth.Context.Provider value={{ status: "idle" }}>
+                  <Suspense fallback="loading">
+                    <UserName />
+                  </Suspense>
+                </auth.Context.Provider>
+              </auth.StoreProvider>,
+            ),
+          missingProviderError(
+            "Suspending on a discriminant mismatch requires a StoreProvider. Wrap your component tree with <StoreProvider>.",
+          ),
+        );
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should unsubscribe a consumer unmounted while suspended once it times out", () => {
+      mock.timers.enable({ apis: ["setTimeout"] });
+      const auth = createDiscriminatedContext<AuthState, "status">("status");
+      const store = createDiscriminatedStore<AuthState, "status">("status", {
+        status: "loading",
+      });
+      let listeners = 0;
+      const counted = {
+        ...store,
+        subscribe: (listener: (value: AuthState) => void) => {
+          const unsubscribe = store.subscribe(listener);
+          listeners += 1;
+          return () => {
+            listeners -= 1;
+            unsubscribe();
+          };
+        },
+      };
+
+      function UserName() {
+        const { user } = auth.useContext("authenticated", { suspend: true });
+        return <>{user.name}</>;
+      }
+
+      try {
+        const { unmount } = render(
+          <auth.StoreProvider store={counted}>
+            <Suspense fallback="loading">
+              <UserName />
+            </Suspense>
+          </auth.StoreProvider>,
+        );
+
+        unmount();
+        assert.strictEqual(listeners, 1);
+
+        mock.timers.tick(30_000);
+        assert.strictEqual(listeners, 0);
+      } finally {
+        mock.timers.reset();
+      }
+    });
+
+    it("should not suspend on a store outside a nearer Provider", () => {
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">("status");
+
+      function UserName() {
+        const { user } = auth.useContext("authenticated", { suspend: true });
+        return <>{user.name}</>;
+      }
+
+      try {
+        assert.throws(
+          () =>
+            render(
+              <auth.StoreProvider
+                value={{
+                  status: "authenticated",
+                  user: { id: "1", name: "John", email: "john@example.com" },
+                }}
+              >
+                <auth.Provider value={{ status: "idle" }}>
+                  <Suspense fallback="loading">
+                    <UserName />
+                  </Suspense>
+                </auth.Provider>
+              </auth.StoreProvider>,
+            ),
+          missingProviderError(
+            "Suspending on a discriminant mismatch requires a StoreProvider. Wrap your component tree with <StoreProvider>.",
+          ),
+        );
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+  });
+
+  describe("DiscriminantBoundary", () => {
+    const user: User = {
+      id: "1",
+      name: "John",
+      email: "john@example.com",
+    };
+
+    const setup = (
+      children: (
+        auth: ReturnType<
+          typeof createDiscriminatedContext<AuthState, "status">
+        >,
+        UserName: () => React.ReactNode,
+      ) => React.ReactNode,
+    ) => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      let setAuth: (value: AuthState) => void = () => {};
+
+      function UserName() {
+        return <>{auth.useContext("authenticated").user.name}</>;
+      }
+
+      function Root() {
+        const [value, setValue] = useState<AuthState>({
+          status: "idle",
+        });
+        setAuth = setValue;
+        return (
+          <auth.Context.Provider value={value}>
+            {children(auth, UserName)}
+          </auth.Context.Provider>
+        );
+      }
+
+      const { container } = render(<Root />);
+
+      return {
+        container,
+        setAuth: (value: AuthState) => act(() => setAuth(value)),
+      };
+    };
+
+    it("should render the fallback for the current variant and reset on the expected one", () => {
+      const consoleError = mock.method(console, "error", () => {});
+
+      try {
+        const { container, setAuth } = setup((auth, UserName) => (
+          <auth.DiscriminantBoundary
+            idle={() => "Please log in"}
+            otherwise={(value, error) =>
+              `${value.status} (expected ${error.expected.join()})`
+            }
+          >
+            <UserName />
+          </auth.DiscriminantBoundary>
+        ));
+
+        assert.strictEqual(container.textContent, "Please log in");
+
+        setAuth({ status: "loading" });
+        assert.strictEqual(
+          container.textContent,
+          "loading (expected authenticated)",
+        );
+
+        setAuth({ status: "authenticated", user });
+        assert.strictEqual(container.textContent, "John");
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should rethrow mismatch errors from other contexts", () => {
+      const consoleError = mock.method(console, "error", () => {});
+      const other = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+
+      function OtherUserName() {
+        return <>{other.useContext("authenticated").user.name}</>;
+      }
+
+      try {
+        assert.throws(
+          () =>
+            setup((auth) => (
+              <other.Context.Provider value={{ status: "idle" }}>
+                <auth.DiscriminantBoundary otherwise={() => "caught"}>
+                  <OtherUserName />
+                </auth.DiscriminantBoundary>
+              </other.Context.Provider>
+            )),
+          mismatchError("Expected status=authenticated, got idle"),
+        );
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should rethrow mismatches it has no fallback for", () => {
+      const consoleError = mock.method(console, "error", () => {});
+
+      try {
+        assert.throws(
+          () =>
+            setup((auth, UserName) => (
+              <auth.DiscriminantBoundary loading={() => "Loading"}>
+                <UserName />
+              </auth.DiscriminantBoundary>
+            )),
+          mismatchError("Expected status=authenticated, got idle"),
+        );
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+  });
+
+  describe("validating Provider values", () => {
+    // A minimal Standard Schema checking that the listed fields are strings
+    const requireStrings = (...fields: string[]): StandardSchemaV1 => ({
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) => ({
+          issues: fields
+            .filter(
+              (field) =>
+                typeof (value as { user?: Record<string, unknown> })
+                  .user?.[field] !== "string",
+            )
+            .map((field) => ({
+              message: "Expected string",
+              path: [{ key: "user" }, field],
+            })),
+        }),
+      },
+    });
+
+    const setup = (value: unknown) => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+        {
+          name: "AuthContext",
+          validate: {
+            idle: () => true,
+            loading: (value) =>
+              value.message === undefined ||
+              typeof value.message === "string",
+            authenticated: requireStrings("id", "name", "email"),
+            error: (value) => typeof value.retryable === "boolean",
+          },
+        },
+      );
+
+      return renderHook(() => auth.useContext("default"), {
+        wrapper: ({ children }) => (
+          <auth.Provider value={value as AuthState}>
+            {children}
+          </auth.Provider>
+        ),
+      });
+    };
+
+    it("should accept values that pass their variant's validator", () => {
+      const { result } = setup({
+        status: "authenticated",
+        user: { id: "1", name: "John", email: "john@example.com" },
+      });
+
+      assert.strictEqual(result.current.status, "authenticated");
+    });
+
+    it("should report the variant and fields a schema rejects", () => {
+      assert.throws(
+        () =>
+          setup({
+            status: "authenticated",
+            user: { id: "1", name: 2 },
+          }),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidProviderValueError);
+          assert.strictEqual(error.variant, "authenticated");
+          assert.deepStrictEqual(error.issues, [
+            { message: "Expected string", path: ["user", "name"] },
+            { message: "Expected string", path: ["user", "email"] },
+          ]);
+          assert.strictEqual(
+            error.message,
+            "[AuthContext] Invalid Provider value for status=authenticated: user.name: Expected string; user.email: Expected string",
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should report values rejected by a predicate", () => {
+      assert.throws(
+        () => setup({ status: "error", error: "Network error" }),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidProviderValueError);
+          assert.strictEqual(
+            error.message,
+            "[AuthContext] Invalid Provider value for status=error: Rejected by the variant's predicate",
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should report missing discriminants and unknown variants", () => {
+      assert.throws(
+        () => setup({ user: {} }),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidProviderValueError);
+          assert.strictEqual(
+            error.message,
+            "[AuthContext] Invalid Provider value for status=undefined: status: Missing discriminant",
+          );
+          return true;
+        },
+      );
+      assert.throws(
+        () => setup({ status: "authentcated" }),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidProviderValueError);
+          assert.deepStrictEqual(error.issues, [
+            {
+              message: 'Unknown variant "authentcated"',
+              path: ["status"],
+            },
+          ]);
+          return true;
+        },
+      );
+    });
+
+    it("should validate values no consumer reads", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">("status", {
+        validate: {
+          idle: () => false,
+          loading: () => true,
+          authenticated: () => true,
+          error: () => true,
+        },
+      });
+
+      assert.throws(
+        () =>
+          render(
+            <auth.StoreProvider value={{ status: "idle" }}>
+              Nothing reads the value
+            </auth.StoreProvider>,
+          ),
+        InvalidProviderValueError,
+      );
+    });
+
+    it("should validate each Provider value once", () => {
+      const validateIdle = mock.fn(() => true);
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+        {
+          validate: {
+            idle: validateIdle,
+            loading: () => true,
+            authenticated: () => true,
+            error: () => true,
+          },
+        },
+      );
+      const value: AuthState = { status: "idle" };
+
+      function Status() {
+        return <>{auth.useContext("default").status}</>;
+      }
+
+      const { container, rerender } = render(
+        <auth.Provider value={value}>
+          <Status />
+          <Status />
+        </auth.Provider>,
+      );
+      rerender(
+        <auth.Provider value={value}>
+          <Status />
+          <Status />
+        </auth.Provider>,
+      );
+
+      assert.strictEqual(container.textContent, "idleidle");
+      assert.strictEqual(validateIdle.mock.callCount(), 1);
+
+      rerender(
+        <auth.Provider value={{ status: "idle" }}>
+          <Status />
+        </auth.Provider>,
+      );
+
+      assert.strictEqual(validateIdle.mock.callCount(), 2);
+    });
+
+    it("should log asynchronous schema failures", async () => {
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+        {
+          validate: {
+            idle: {
+              "~standard": {
+                version: 1,
+                vendor: "test",
+                validate: async () => ({
+                  issues: [{ message: "Not allowed" }],
+                }),
+              },
+            },
+            loading: () => true,
+            authenticated: () => true,
+            error: () => true,
+          },
+        },
+      );
+
+      try {
+        const { result } = renderHook(() => auth.useContext("idle"), {
+          wrapper: ({ children }) => (
+            <auth.Provider value={{ status: "idle" }}>
+              {children}
+            </auth.Provider>
+          ),
+        });
+
+        assert.strictEqual(result.current.status, "idle");
+        await act(async () => {});
+
+        const logged = consoleError.mock.calls
+          .map((call) => call.arguments[0])
+          .find((error) => error instanceof InvalidProviderValueError);
+        assert.ok(logged instanceof InvalidProviderValueError);
+        assert.strictEqual(
+          logged.message,
+          "Invalid Provider value for status=idle: Not allowed",
+        );
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should log schemas that reject", async () => {
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">("status", {
+        validate: {
+          idle: {
+            "~standard": {
+              version: 1,
+              vendor: "test",
+              validate: () => Promise.reject(new Error("Offline")),
+            },
+          },
+          loading: () => true,
+          authenticated: () => true,
+          error: () => true,
+        },
+      });
+
+      try {
+        renderHook(() => auth.useContext("idle"), {
+          wrapper: ({ children }) => (
+            <auth.Provider value={{ status: "idle" }}>
+              {children}
+            </auth.Provider>
+          ),
+        });
+        await act(async () => {});
+
+        const logged = consoleError.mock.calls
+          .map((call) => call.arguments[0])
+          .find((error) => error instanceof InvalidProviderValueError);
+        assert.ok(logged instanceof InvalidProviderValueError);
+        assert.strictEqual(
+          logged.message,
+          "Invalid Provider value for status=idle: Schema rejected with Error: Offline",
+        );
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+  });
+
+  describe("Provider", () => {
+    const auth = createDiscriminatedContext<AuthState, "status">(
+      "status",
+      {
+        name: "AuthContext",
+        values: ["idle", "loading", "authenticated", "error"],
+      },
+    );
+
+    const setup = (value: unknown) =>
+      renderHook(() => auth.useContext("default"), {
+        wrapper: ({ children }) => (
+          <auth.Provider value={value as AuthState}>
+            {children}
+          </auth.Provider>
+        ),
+      });
+
+    it("should provide values like Context.Provider", () => {
+      const { result } = setup({ status: "loading" });
+
+      assert.strictEqual(result.current.status, "loading");
+      assert.strictEqual(
+        auth.Provider.displayName,
+        "AuthContext.Provider",
+      );
+    });
+
+    it("should throw for missing and undeclared discriminants", () => {
+      assert.throws(
+        () => setup({ user: {} }),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidProviderValueError);
+          assert.strictEqual(
+            error.message,
+            "[AuthContext] Invalid Provider value for status=undefined: status: Missing discriminant",
+          );
+          return true;
+        },
+      );
+      assert.throws(
+        () => setup({ status: "authentcated" }),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidProviderValueError);
+          assert.deepStrictEqual(error.issues, [
+            {
+              message:
+                'Unknown variant "authentcated", expected one of "idle", "loading", "authenticated", "error"',
+              path: ["status"],
+            },
+          ]);
+          return true;
+        },
+      );
+    });
+
+    it("should throw for values that aren't objects", () => {
+      assert.throws(
+        () => setup(null),
+        (error: unknown) => {
+          assert.ok(error instanceof InvalidProviderValueError);
+          assert.match(
+            error.message,
+            /Provider value must be an object/,
+          );
+          return true;
+        },
+      );
+    });
+
+    it("should warn about discriminants that can't be narrowed on reliably", () => {
+      const warn = mock.method(console, "warn", () => {});
+      const anything = createDiscriminatedContext<
+        { kind: symbol | number | object },
+        "kind"
+      >("kind");
+
+      try {
+        for (const kind of [Symbol("idle"), NaN, {}, 1]) {
+          render(
+            <anything.Provider value={{ kind }}>
+              <></>
+            </anything.Provider>,
+          );
+        }
+
+        const messages = warn.mock.calls.map((call) =>
+          String(call.arguments[0]),
+        );
+        assert.deepStrictEqual(
+          messages.map((message) => message.split("\n")[0]),
+          [
+            "The discriminant kind is a symbol, which can't key Match cases or be serialized.",
+            "The discriminant kind is NaN, which never equals an expected value.",
+            "The discriminant kind is an object, which only matches itself by reference.",
+          ],
+        );
+        // React 18 has no owner stacks, and nothing reads its internals instead
+        for (const message of messages) {
+          assert.doesNotMatch(message, /\n/);
+        }
+      } finally {
+        warn.mock.restore();
+      }
+    });
+
+    it("should check StoreProvider values too", () => {
+      assert.throws(
+        () =>
+          render(
+            <auth.StoreProvider
+              value={{ status: "pending" } as unknown as AuthState}
+            >
+              <></>
+            </auth.StoreProvider>,
+          ),
+        InvalidProviderValueError,
+      );
+    });
+  });
+
+  describe("narrowing to multiple values", () => {
+    it("should return the value when the discriminant is one of the expected values", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const testValue: AuthState = {
+        status: "error",
+        error: "Timeout",
+        retryable: true,
+      };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      const { result } = renderHook(
+        () => useContext(["loading", "error"]),
+        { wrapper },
+      );
+
+      assert.strictEqual(result.current, testValue);
+      assert.strictEqual(result.current.status, "error");
+    });
+
+    it("should throw listing all accepted values when none match", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const testValue: AuthState = { status: "idle" };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      assert.throws(
+        () => {
+          renderHook(() => useContext(["authenticated", "error"]), {
+            wrapper,
+          });
+        },
+        mismatchError("Expected status=authenticated | error, got idle"),
+      );
+    });
+  });
+
+  describe("useContextIf", () => {
+    it("should return the narrowed value when the discriminant matches", () => {
+      const { Context, useContextIf } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const testValue: AuthState = {
+        status: "authenticated",
+        user: { id: "1", name: "John", email: "john@example.com" },
+      };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      const { result } = renderHook(() => useContextIf("authenticated"), {
+        wrapper,
+      });
+
+      assert.strictEqual(result.current, testValue);
+    });
+
+    it("should return null instead of throwing on mismatch", () => {
+      const { Context, useContextIf } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const testValue: AuthState = { status: "idle" };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      const { result } = renderHook(
+        () => useContextIf(["authenticated", "error"]),
+        { wrapper },
+      );
+
+      assert.strictEqual(result.current, null);
+    });
+
+    it("should still throw when no Provider exists", () => {
+      const { useContextIf } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      assert.throws(
+        () => {
+          renderHook(() => useContextIf("idle"));
+        },
+        missingProviderError(
+          "useContext must be used within a Provider. Wrap your component tree with <Context.Provider>.",
+        ),
+      );
+    });
+  });
+
+  describe("Match", () => {
+    it("should render the case for the current discriminant with the narrowed value", () => {
+      const { Context, Match } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const testValue: AuthState = {
+        status: "authenticated",
+        user: { id: "1", name: "John", email: "john@example.com" },
+      };
+
+      const { container } = render(
+        <Context.Provider value={testValue}>
+          <Match
+            idle={() => "idle"}
+            loading={() => "loading"}
+            authenticated={(auth) => `Hello ${auth.user.name}`}
+            error={(auth) => auth.error}
+          />
+        </Context.Provider>,
+      );
+
+      assert.strictEqual(container.textContent, "Hello John");
+    });
+
+    it("should fall back to otherwise when there is no matching case", () => {
+      const { Context, Match } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const testValue: AuthState = { status: "loading" };
+
+      const { container } = render(
+        <Context.Provider value={testValue}>
+          <Match
+            authenticated={() => "authenticated"}
+            otherwise={(auth) => `otherwise: ${auth.status}`}
+          />
+        </Context.Provider>,
+      );
+
+      assert.strictEqual(container.textContent, "otherwise: loading");
+    });
+
+    it("should match boolean discriminants by their string form", () => {
+      type ToggleState =
+        | { enabled: true; level: number }
+        | { enabled: false };
+
+      const { Context, Match } = createDiscriminatedContext<
+        ToggleState,
+        "enabled"
+      >("enabled");
+
+      const { container } = render(
+        <Context.Provider value={{ enabled: true, level: 3 }}>
+          <Match
+            true={(toggle) => `level ${toggle.level}`}
+            false={() => "off"}
+          />
+        </Context.Provider>,
+      );
+
+      assert.strictEqual(container.textContent, "level 3");
+    });
+  });
+
+  describe("withVariant", () => {
+    const { Context, withVariant } = createDiscriminatedContext<
+      AuthState,
+      "status"
+    >("status");
+
+    type Authenticated = Extract<
+      AuthState,
+      { status: "authenticated" }
+    >;
+
+    class Greeting extends React.Component<{
+      auth: Authenticated;
+      greeting: string;
+    }> {
+      override render() {
+        return `${this.props.greeting} ${this.props.auth.user.name}`;
+      }
+    }
+
+    const authenticated: AuthState = {
+      status: "authenticated",
+      user: { id: "1", name: "John", email: "john@example.com" },
+    };
+
+    it("should render the component with the narrowed value as a prop", () => {
+      const AuthenticatedGreeting = withVariant("authenticated", {
+        prop: "auth",
+      })(Greeting);
+
+      const { container } = render(
+        <Context.Provider value={authenticated}>
+          <AuthenticatedGreeting greeting="Hello" />
+        </Context.Provider>,
+      );
+
+      assert.strictEqual(container.textContent, "Hello John");
+      assert.strictEqual(
+        AuthenticatedGreeting.displayName,
+        "withVariant(Greeting)",
+      );
+    });
+
+    it("should render nothing in other variants", () => {
+      const AuthenticatedGreeting = withVariant("authenticated", {
+        prop: "auth",
+      })(Greeting);
+
+      const { container } = render(
+        <Context.Provider value={{ status: "loading" }}>
+          <AuthenticatedGreeting greeting="Hello" />
+        </Context.Provider>,
+      );
+
+      assert.strictEqual(container.textContent, "");
+    });
+
+    it("should render the fallback with the current value", () => {
+      const Status = ({ value }: { value: AuthState }) => value.status;
+      const Idle = withVariant(["idle", "loading"], {
+        fallback: (auth) => `Not idle: ${auth.status}`,
+      })(Status);
+
+      const { container } = render(
+        <Context.Provider value={authenticated}>
+          <Idle />
+        </Context.Provider>,
+      );
+
+      assert.strictEqual(
+        container.textContent,
+        "Not idle: authenticated",
+      );
+    });
+  });
+
+  describe("lifecycle hooks", () => {
+    const { Context, useOnEnter, useOnExit, useOnTransition } =
+      createDiscriminatedContext<AuthState, "status">("status");
+
+    const user = { id: "1", name: "John", email: "john@example.com" };
+
+    function renderWithLifecycle(initial: AuthState) {
+      const calls: string[] = [];
+
+      function Watcher() {
+        useOnEnter("error", (auth) =>
+          calls.push(`enter ${auth.error}`),
+        );
+        useOnExit(["loading", "error"], (previous, current) =>
+          calls.push(`exit ${previous.status} -> ${current.status}`),
+        );
+        useOnTransition("loading", "authenticated", (_from, to) =>
+          calls.push(`login ${to.user.name}`),
+        );
+        return null;
+      }
+
+      const { rerender } = render(
+        <Context.Provider value={initial}>
+          <Watcher />
+        </Context.Provider>,
+      );
+
+      return {
+        calls,
+        provide: (value: AuthState) =>
+          rerender(
+            <Context.Provider value={value}>
+              <Watcher />
+            </Context.Provider>,
+          ),
+      };
+    }
+
+    it("should call back on entering, leaving and moving between variants", () => {
+      const { calls, provide } = renderWithLifecycle({
+        status: "idle",
+      });
+
+      provide({ status: "loading" });
+      provide({ status: "authenticated", user });
+      provide({ status: "error", error: "Expired", retryable: true });
+      provide({ status: "idle" });
+
+      assert.deepStrictEqual(calls, [
+        "exit loading -> authenticated",
+        "login John",
+        "enter Expired",
+        "exit error -> idle",
+      ]);
+    });
+
+    it("should not call back for the initial variant or same-variant updates", () => {
+      const { calls, provide } = renderWithLifecycle({
+        status: "error",
+        error: "Timeout",
+        retryable: true,
+      });
+
+      provide({ status: "error", error: "Offline", retryable: false });
+
+      assert.deepStrictEqual(calls, []);
+    });
+
+    it("should not call useOnExit when moving within the expected variants", () => {
+      const { calls, provide } = renderWithLifecycle({
+        status: "loading",
+      });
+
+      provide({ status: "error", error: "Timeout", retryable: true });
+
+      assert.deepStrictEqual(calls, ["enter Timeout"]);
+    });
+  });
+
+  describe("useSelector", () => {
+    type SessionState =
+      | { status: "idle" }
+      | { status: "authenticated"; user: User; lastSeen: number }
+      | { status: "refreshing"; user: User; lastSeen: number };
+
+    const user: User = {
+      id: "1",
+      name: "John",
+      email: "john@example.com",
+    };
+
+    const setup = (initial: SessionState) => {
+      const session = createDiscriminatedContext<SessionState, "status">(
+        "status",
+      );
+      let setSession: (value: SessionState) => void = () => {};
+      let renders = 0;
+
+      function Root({ children }: { children: React.ReactNode }) {
+        const [value, setValue] = useState(initial);
+        setSession = setValue;
+        return (
+          <session.StoreProvider value={value}>
+            {children}
+          </session.StoreProvider>
+        );
+      }
+
+      function UserName() {
+        renders++;
+        const name = session.useSelector(
+          ["authenticated", "refreshing"],
+          (state) => state.user.name,
+        );
+        return <span>{name}</span>;
+      }
+
+      const { container } = render(
+        <Root>
+          <UserName />
+        </Root>,
+      );
+
+      return {
+        container,
+        renders: () => renders,
+        setSession: (value: SessionState) => act(() => setSession(value)),
+      };
+    };
+
+    it("should return the selected slice", () => {
+      const { container } = setup({
+        status: "authenticated",
+        user,
+        lastSeen: 1,
+      });
+
+      assert.strictEqual(container.textContent, "John");
+    });
+
+    it("should not re-render when an unselected field changes", () => {
+      const { renders, setSession } = setup({
+        status: "authenticated",
+        user,
+        lastSeen: 1,
+      });
+
+      const before = renders();
+      setSession({ status: "authenticated", user: { ...user }, lastSeen: 2 });
+
+      assert.strictEqual(renders(), before);
+    });
+
+    it("should re-render when the selected slice changes", () => {
+      const { container, setSession } = setup({
+        status: "authenticated",
+        user,
+        lastSeen: 1,
+      });
+
+      setSession({
+        status: "authenticated",
+        user: { ...user, name: "Jane" },
+        lastSeen: 1,
+      });
+
+      assert.strictEqual(container.textContent, "Jane");
+    });
+
+    it("should re-render when the active variant changes", () => {
+      const { renders, setSession } = setup({
+        status: "authenticated",
+        user,
+        lastSeen: 1,
+      });
+
+      const before = renders();
+      setSession({ status: "refreshing", user, lastSeen: 1 });
+
+      assert.strictEqual(renders(), before + 1);
+    });
+
+    it("should compare slices with the given isEqual", () => {
+      const session = createDiscriminatedContext<SessionState, "status">(
+        "status",
+      );
+      const store = createDiscriminatedStore<SessionState, "status">(
+        "status",
+        { status: "authenticated", user, lastSeen: 1 },
+      );
+      const sameId = (a: User, b: User) => a.id === b.id;
+      let renders = 0;
+
+      function UserName() {
+        renders++;
+        const fromOptions = session.useSelector(
+          "authenticated",
+          (state) => state.user,
+          { isEqual: sameId },
+        );
+        // A function in place of the options is still taken as isEqual
+        const fromArgument = session.useSelector(
+          "authenticated",
+          (state) => state.user,
+          sameId,
+        );
+        return <>{`${fromOptions.name} ${fromArgument.name}`}</>;
+      }
+
+      const { container } = render(
+        <session.StoreProvider store={store}>
+          <UserName />
+        </session.StoreProvider>,
+      );
+
+      act(() =>
+        store.set({
+          status: "authenticated",
+          user: { ...user, name: "Jane" },
+          lastSeen: 2,
+        }),
+      );
+
+      assert.strictEqual(renders, 1);
+      assert.strictEqual(container.textContent, "John John");
+    });
+
+    it("should suspend and reject per call, like useContext", async () => {
+      const consoleError = mock.method(console, "error", () => {});
+      const session = createDiscriminatedContext<SessionState, "status">(
+        "status",
+      );
+      const store = createDiscriminatedStore<SessionState, "status">(
+        "status",
+        { status: "idle" },
+      );
+
+      function UserName() {
+        const name = session.useSelector(
+          "authenticated",
+          (state) => state.user.name,
+          { suspend: true, rejectOn: "refreshing" },
+        );
+        return <>{name}</>;
+      }
+
+      class Boundary extends React.Component<
+        { children: React.ReactNode },
+        { error: unknown }
+      > {
+        state = { error: null as unknown };
+
+        static getDerivedStateFromError(error: unknown) {
+          return { error };
+        }
+
+        render() {
+          return this.state.error === null ? this.props.children : "failed";
+        }
+      }
+
+      try {
+        const { container } = render(
+          <session.StoreProvider store={store}>
+            <Boundary>
+              <Suspense fallback="loading">
+                <UserName />
+              </Suspense>
+            </Boundary>
+          </session.StoreProvider>,
+        );
+
+        assert.strictEqual(container.textContent, "loading");
+
+        await act(async () =>
+          store.set({ status: "authenticated", user, lastSeen: 1 }),
+        );
+
+        assert.strictEqual(container.textContent, "John");
+
+        act(() => store.set({ status: "refreshing", user, lastSeen: 1 }));
+
+        assert.strictEqual(container.textContent, "failed");
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+
+    it("should throw when used outside a StoreProvider", () => {
+      const { Context, useSelector } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={{ status: "idle" }}>
+          {children}
+        </Context.Provider>
+      );
+
+      assert.throws(
+        () => {
+          renderHook(() => useSelector("default", (auth) => auth.status), {
+            wrapper,
+          });
+        },
+        missingProviderError(
+          "useSelector must be used within a StoreProvider. Wrap your component tree with <StoreProvider>.",
+        ),
+      );
+    });
+
+    it("should not read a store outside a nearer Provider", () => {
+      const { StoreProvider, Provider, useSelector } =
+        createDiscriminatedContext<AuthState, "status">("status");
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <StoreProvider value={{ status: "loading" }}>
+          <Provider value={{ status: "idle" }}>{children}</Provider>
+        </StoreProvider>
+      );
+
+      assert.throws(
+        () => {
+          renderHook(() => useSelector("default", (auth) => auth.status), {
+            wrapper,
+          });
+        },
+        missingProviderError(
+          "useSelector must be used within a StoreProvider. Wrap your component tree with <StoreProvider>.",
+        ),
+      );
+    });
+
+    it("should still read the outer store below a nested Context.Provider", () => {
+      const { StoreProvider, Context, useSelector } =
+        createDiscriminatedContext<AuthState, "status">("status");
+
+      // Unsupported: Context.Provider can't hide the store, so use Provider there
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <StoreProvider value={{ status: "loading" }}>
+          <Context.Provider value={{ status: "idle" }}>
+            {children}
+          </Context.Provider>
+        </StoreProvider>
+      );
+
+      const { result } = renderHook(
+        () => useSelector("default", (auth) => auth.status),
+        { wrapper },
+      );
+
+      assert.strictEqual(result.current, "loading");
+    });
+
+    it("should throw when the discriminant does not match", () => {
+      const { StoreProvider, useSelector } = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <StoreProvider value={{ status: "idle" }}>{children}</StoreProvider>
+      );
+
+      assert.throws(
+        () => {
+          renderHook(
+            () => useSelector("authenticated", (auth) => auth.user),
+            { wrapper },
+          );
+        },
+        mismatchError("Expected status=authenticated, got idle"),
+      );
+    });
+  });
+
+  describe("different discriminant keys", () => {
+    type RequestState =
+      | { type: "pending" }
+      | { type: "success"; data: string }
+      | { type: "failure"; reason: string };
+
+    it("should work with 'type' as discriminant key", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        RequestState,
+        "type"
+      >("type");
+
+      const testValue: RequestState = {
+        type: "success",
+        data: "Hello World",
+      };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      const { result } = renderHook(() => useContext("success"), {
+        wrapper,
+      });
+
+      assert.strictEqual(result.current.type, "success");
+      assert.strictEqual(result.current.data, "Hello World");
+    });
+
+    type StepState =
+      | { step: 1; name: string }
+      | { step: 2; email: string }
+      | { step: 3; password: string };
+
+    it("should work with numeric discriminant values", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        StepState,
+        "step"
+      >("step");
+
+      const testValue: StepState = {
+        step: 2,
+        email: "test@example.com",
+      };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      const { result } = renderHook(() => useContext(2), { wrapper });
+
+      assert.strictEqual(result.current.step, 2);
+      assert.strictEqual(result.current.email, "test@example.com");
+    });
+
+    it("should throw for numeric discriminant mismatch", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        StepState,
+        "step"
+      >("step");
+
+      const testValue: StepState = { step: 1, name: "John" };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      assert.throws(
+        () => {
+          renderHook(() => useContext(3), { wrapper });
+        },
+        mismatchError("Expected step=3, got 1"),
+      );
+    });
+
+    type BooleanDiscriminant =
+      | { active: true; data: string }
+      | { active: false; reason: string };
+
+    it("should work with boolean discriminant values", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        BooleanDiscriminant,
+        "active"
+      >("active");
+
+      const testValue: BooleanDiscriminant = {
+        active: true,
+        data: "test",
+      };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      const { result } = renderHook(() => useContext(true), {
+        wrapper,
+      });
+
+      assert.strictEqual(result.current.active, true);
+      assert.strictEqual(result.current.data, "test");
+    });
+  });
+
+  describe("nested-path discriminants", () => {
+    const api = createDiscriminatedContext<ApiResponse, "result.kind">(
+      "result.kind",
+    );
+
+    const wrapper =
+      (value: ApiResponse) =>
+      ({ children }: { children: React.ReactNode }) => (
+        <api.Context.Provider value={value}>
+          {children}
+        </api.Context.Provider>
+      );
+
+    it("should narrow by the value at the path", () => {
+      const { result } = renderHook(() => api.useContext("ok"), {
+        wrapper: wrapper({
+          meta: { requestId: "r1" },
+          result: { kind: "ok", data: ["a", "b"] },
+        }),
+      });
+
+      assert.deepStrictEqual(result.current.result.data, ["a", "b"]);
+      assert.strictEqual(result.current.meta.requestId, "r1");
+    });
+
+    it("should report the path and nested value on a mismatch", () => {
+      assert.throws(() => {
+        renderHook(() => api.useContext("ok"), {
+          wrapper: wrapper({
+            meta: { requestId: "r1" },
+            result: { kind: "fail", reason: "Timeout" },
+          }),
+        });
+      }, mismatchError("Expected result.kind=ok, got fail"));
+    });
+
+    it("should match cases by the nested value", () => {
+      const { container } = render(
+        <api.Context.Provider
+          value={{
+            meta: { requestId: "r1" },
+            result: { kind: "fail", reason: "Timeout" },
+          }}
+        >
+          <api.Match
+            ok={(response) => response.result.data.join()}
+            fail={(response) => response.result.reason}
+          />
+        </api.Context.Provider>,
+      );
+
+      assert.strictEqual(container.textContent, "Timeout");
+    });
+  });
+
+  describe("composite patterns", () => {
+    const session = createDiscriminatedContext<Session, "status">(
+      "status",
+    );
+
+    const wrapper =
+      (value: Session) =>
+      ({ children }: { children: React.ReactNode }) => (
+        <session.Context.Provider value={value}>
+          {children}
+        </session.Context.Provider>
+      );
+
+    it("should narrow when every key of the pattern matches", () => {
+      const { result } = renderHook(
+        () =>
+          session.useContext({
+            status: "authenticated",
+            role: "admin",
+          }),
+        {
+          wrapper: wrapper({
+            status: "authenticated",
+            role: "admin",
+            auditLog: ["login"],
+          }),
+        },
+      );
+
+      assert.deepStrictEqual(result.current.auditLog, ["login"]);
+    });
+
+    it("should report every key that didn't match", () => {
+      let thrown: unknown;
+
+      try {
+        renderHook(
+          () =>
+            session.useContext({
+              status: "authenticated",
+              role: "admin",
+            }),
+          { wrapper: wrapper({ status: "idle", role: "guest" }) },
+        );
+      } catch (error) {
+        thrown = error;
+      }
+
+      assert.ok(thrown instanceof DiscriminantMismatchError);
+      assert.strictEqual(
+        thrown.message,
+        "Expected status=authenticated, got idle; Expected role=admin, got guest",
+      );
+      assert.strictEqual(thrown.discriminantKey, "status");
+      assert.deepStrictEqual(thrown.mismatches, [
+        {
+          discriminantKey: "status",
+          expected: ["authenticated"],
+          actual: "idle",
+        },
+        {
+          discriminantKey: "role",
+          expected: ["admin"],
+          actual: "guest",
+        },
+      ]);
+    });
+
+    it("should report only the keys that didn't match", () => {
+      assert.throws(() => {
+        renderHook(
+          () =>
+            session.useContext({
+              status: "authenticated",
+              role: "admin",
+            }),
+          {
+            wrapper: wrapper({
+              status: "authenticated",
+              role: "member",
+              teams: [],
+            }),
+          },
+        );
+      }, mismatchError("Expected role=admin, got member"));
+    });
+
+    it("should return null from useContextIf on a partial match", () => {
+      const { result } = renderHook(
+        () => ({
+          admin: session.useContextIf({
+            status: "authenticated",
+            role: "admin",
+          }),
+          member: session.useContextIf({ role: "member" }),
+        }),
+        {
+          wrapper: wrapper({
+            status: "authenticated",
+            role: "member",
+            teams: ["core"],
+          }),
+        },
+      );
+
+      assert.strictEqual(result.current.admin, null);
+      assert.deepStrictEqual(result.current.member?.teams, ["core"]);
+    });
+  });
+
+  describe("complex nested types", () => {
+    type ComplexState =
+      | { kind: "empty" }
+      | {
+          kind: "loaded";
+          data: {
+            items: Array<{ id: number; name: string }>;
+            metadata: { total: number; page: number };
+          };
+        };
+
+    it("should handle deeply nested objects", () => {
+      const { Context, useContext } = createDiscriminatedContext<
+        ComplexState,
+        "kind"
+      >("kind");
+
+      const testValue: ComplexState = {
+        kind: "loaded",
+        data: {
+          items: [
+            { id: 1, name: "Item 1" },
+            { id: 2, name: "Item 2" },
+          ],
+          metadata: { total: 2, page: 1 },
+        },
+      };
+
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <Context.Provider value={testValue}>
+          {children}
+        </Context.Provider>
+      );
+
+      const { result } = renderHook(() => useContext("loaded"), {
+        wrapper,
+      });
+
+      assert.strictEqual(result.current.kind, "loaded");
+      assert.strictEqual(result.current.data.items.length, 2);
+      assert.strictEqual(result.current.data.items[0]?.name, "Item 1");
+      assert.strictEqual(result.current.data.metadata.total, 2);
+    });
+  });
+
+  describe("multiple independent contexts", () => {
+    it("should allow creating and using multiple contexts independently", () => {
+      type ThemeState =
+        | { mode: "light" }
+        | { mode: "dark"; accent: string };
+
+      const authContext = createDiscriminatedContext<
+        AuthState,
+        "status"
+      >("status");
+      const themeContext = createDiscriminatedContext<
         ThemeState,
         "mode"
       >("mode");
@@ -651,6 +2915,328 @@ describe("createDiscriminatedContext", () => {
     });
   });
 
+  describe("scoped providers", () => {
+    const realUser: AuthState = {
+      status: "authenticated",
+      user: { id: "1", name: "Real User", email: "real@test.com" },
+    };
+    const impersonated: AuthState = {
+      status: "authenticated",
+      user: { id: "2", name: "Impersonated", email: "other@test.com" },
+    };
+
+    it("should read the Provider with the given scope past nearer ones", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+
+      const { result } = renderHook(
+        () => ({
+          nearest: auth.useContext("authenticated"),
+          root: auth.useContext("authenticated", { scope: "root" }),
+          rootIfIdle: auth.useContextIf("idle", { scope: "root" }),
+          union: auth.useUnion({ scope: "root" }),
+        }),
+        {
+          wrapper: ({ children }) => (
+            <auth.Provider value={realUser} scope="root">
+              <auth.Provider value={impersonated}>
+                {children}
+              </auth.Provider>
+            </auth.Provider>
+          ),
+        },
+      );
+
+      assert.strictEqual(
+        result.current.nearest.user.name,
+        "Impersonated",
+      );
+      assert.strictEqual(result.current.root.user.name, "Real User");
+      assert.strictEqual(result.current.rootIfIdle, null);
+      assert.strictEqual(result.current.union, realUser);
+    });
+
+    it("should let an inner Provider with the same scope shadow an outer one", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+
+      const { result } = renderHook(
+        () => auth.useContext("default", { scope: "session" }),
+        {
+          wrapper: ({ children }) => (
+            <auth.Provider value={realUser} scope="session">
+              <auth.Provider value={{ status: "idle" }} scope="session">
+                {children}
+              </auth.Provider>
+            </auth.Provider>
+          ),
+        },
+      );
+
+      assert.strictEqual(result.current.status, "idle");
+    });
+
+    it("should follow a scoped StoreProvider's store", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      const store = createDiscriminatedStore<AuthState, "status">(
+        "status",
+        { status: "idle" },
+      );
+
+      const { result } = renderHook(
+        () => auth.useContext("default", { scope: "root" }).status,
+        {
+          wrapper: ({ children }) => (
+            <auth.StoreProvider store={store} scope="root">
+              <auth.Provider value={impersonated}>
+                {children}
+              </auth.Provider>
+            </auth.StoreProvider>
+          ),
+        },
+      );
+
+      assert.strictEqual(result.current, "idle");
+
+      act(() => store.set({ status: "loading" }));
+
+      assert.strictEqual(result.current, "loading");
+    });
+
+    it("should only re-render a scoped useSelector when its slice changes", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      const store = createDiscriminatedStore<AuthState, "status">(
+        "status",
+        realUser,
+      );
+      let renders = 0;
+
+      function Status() {
+        renders++;
+        return (
+          <>
+            {auth.useSelector("default", (value) => value.status, {
+              scope: "root",
+            })}
+          </>
+        );
+      }
+
+      const { container } = render(
+        <auth.StoreProvider store={store} scope="root">
+          <auth.Provider value={impersonated}>
+            <Status />
+          </auth.Provider>
+        </auth.StoreProvider>,
+      );
+
+      act(() => store.set({ ...impersonated }));
+
+      assert.strictEqual(container.textContent, "authenticated");
+      assert.strictEqual(renders, 1);
+
+      act(() => store.set({ status: "idle" }));
+
+      assert.strictEqual(container.textContent, "idle");
+      assert.strictEqual(renders, 2);
+    });
+
+    it("should narrow and throw on the scoped value", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      const wrapper = ({ children }: { children: React.ReactNode }) => (
+        <auth.Provider value={{ status: "idle" }} scope="root">
+          <auth.Provider value={impersonated}>{children}</auth.Provider>
+        </auth.Provider>
+      );
+
+      assert.throws(
+        () =>
+          renderHook(
+            () => auth.useContext("authenticated", { scope: "root" }),
+            { wrapper },
+          ),
+        DiscriminantMismatchError,
+      );
+    });
+
+    it("should throw without a Provider of that scope", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+
+      assert.throws(
+        () =>
+          renderHook(() => auth.useUnion({ scope: "root" }), {
+            wrapper: ({ children }) => (
+              <auth.Provider value={realUser}>{children}</auth.Provider>
+            ),
+          }),
+        (error: unknown) => {
+          assert.ok(error instanceof MissingProviderError);
+          assert.match(error.message, /Provider with scope "root"/);
+          return true;
+        },
+      );
+    });
+
+    it("should select from a scoped StoreProvider's store", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      const store = createDiscriminatedStore<AuthState, "status">(
+        "status",
+        { status: "idle" },
+      );
+
+      const { result } = renderHook(
+        () =>
+          auth.useSelector("default", (value) => value.status, {
+            scope: "root",
+          }),
+        {
+          wrapper: ({ children }) => (
+            <auth.StoreProvider store={store} scope="root">
+              <auth.Provider value={impersonated}>{children}</auth.Provider>
+            </auth.StoreProvider>
+          ),
+        },
+      );
+
+      assert.strictEqual(result.current, "idle");
+
+      act(() => store.set({ status: "loading" }));
+
+      assert.strictEqual(result.current, "loading");
+    });
+
+    it("should throw when selecting from a scope without a store", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+
+      assert.throws(
+        () =>
+          renderHook(
+            () =>
+              auth.useSelector("default", (value) => value, {
+                scope: "root",
+              }),
+            {
+              wrapper: ({ children }) => (
+                <auth.Provider value={realUser} scope="root">
+                  {children}
+                </auth.Provider>
+              ),
+            },
+          ),
+        (error: unknown) => {
+          assert.ok(error instanceof MissingProviderError);
+          assert.match(error.message, /StoreProvider with scope "root"/);
+          return true;
+        },
+      );
+    });
+
+    it("should match, wrap and watch the scoped value", () => {
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      const store = createDiscriminatedStore<AuthState, "status">(
+        "status",
+        { status: "idle" },
+      );
+      const onEnter = mock.fn();
+      const onExit = mock.fn();
+      const onTransition = mock.fn();
+
+      const Name = auth.withVariant("authenticated", {
+        prop: "auth",
+        fallback: (value) => `[${value.status}]`,
+        scope: "root",
+      })(({ auth: { user } }: { auth: { user: User } }) => <>{user.name}</>);
+
+      function Watcher() {
+        auth.useOnEnter("loading", onEnter, { scope: "root" });
+        auth.useOnExit("idle", onExit, { scope: "root" });
+        auth.useOnTransition("idle", "loading", onTransition, {
+          scope: "root",
+        });
+        return null;
+      }
+
+      const { container } = render(
+        <auth.StoreProvider store={store} scope="root">
+          <auth.Provider value={impersonated}>
+            <auth.Match scope="root" otherwise={(value) => value.status} />
+            <Name />
+            <Watcher />
+          </auth.Provider>
+        </auth.StoreProvider>,
+      );
+
+      assert.strictEqual(container.textContent, "idle[idle]");
+
+      act(() => store.set({ status: "loading" }));
+
+      assert.strictEqual(container.textContent, "loading[loading]");
+      assert.strictEqual(onEnter.mock.callCount(), 1);
+      assert.strictEqual(onExit.mock.callCount(), 1);
+      assert.strictEqual(onTransition.mock.callCount(), 1);
+
+      act(() => store.set(realUser));
+
+      assert.strictEqual(container.textContent, "authenticatedReal User");
+    });
+
+    it("should choose boundary fallbacks and reset on the scoped value", () => {
+      const consoleError = mock.method(console, "error", () => {});
+      const auth = createDiscriminatedContext<AuthState, "status">(
+        "status",
+      );
+      const store = createDiscriminatedStore<AuthState, "status">(
+        "status",
+        { status: "idle" },
+      );
+
+      function RealName() {
+        const { user } = auth.useContext("authenticated", { scope: "root" });
+        return <>{user.name}</>;
+      }
+
+      try {
+        const { container } = render(
+          <auth.StoreProvider store={store} scope="root">
+            <auth.Provider value={impersonated}>
+              <auth.DiscriminantBoundary
+                scope="root"
+                idle={() => "signed out"}
+                authenticated={() => "never"}
+              >
+                <RealName />
+              </auth.DiscriminantBoundary>
+            </auth.Provider>
+          </auth.StoreProvider>,
+        );
+
+        assert.strictEqual(container.textContent, "signed out");
+
+        act(() => store.set(realUser));
+
+        assert.strictEqual(container.textContent, "Real User");
+      } finally {
+        consoleError.mock.restore();
+      }
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle undefined optional properties", () => {
       const { Context, useContext } = createDiscriminatedContext<
@@ -0,0 +1,258 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import React from "react";
+import { act, renderHook } from "@testing-library/react";
+import {
+  createDiscriminatedMachine,
+  MissingProviderError,
+} from "../index.js";
+
+// =============================================================================
+// Test Types
+// =============================================================================
+
+type User = {
+  id: string;
+  name: string;
+};
+
+type AuthState =
+  | { status: "idle" }
+  | { status: "loading"; message?: string }
+  | { status: "authenticated"; user: User }
+  | { status: "refreshing"; user: User }
+  | { status: "error"; error: string };
+
+const createAuthMachine = () =>
+  createDiscriminatedMachine<AuthState, "status">("status")({
+    idle: ["loading"],
+    loading: ["authenticated", "error"],
+    authenticated: ["refreshing", "idle"],
+    refreshing: ["authenticated", "error"],
+    error: ["idle", "loading"],
+  });
+
+// =============================================================================
+// Compile-time Type Tests
+// =============================================================================
+
+function _compileTimeTypeTests() {
+  const machine = createAuthMachine();
+
+  const _testTransitions = () => {
+    const fromIdle = machine.useTransition("idle");
+    fromIdle("loading");
+    fromIdle("loading", { message: "Signing in..." });
+
+    // @ts-expect-error - idle -> refreshing is not a declared edge
+    fromIdle("refreshing", { user: { id: "1", name: "John" } });
+
+    const fromLoading = machine.useTransition("loading");
+    fromLoading("authenticated", { user: { id: "1", name: "John" } });
+    fromLoading("error", { error: "Invalid credentials" });
+
+    // @ts-expect-error - the authenticated payload requires a user
+    fromLoading("authenticated");
+
+    // @ts-expect-error - error is not a field of the authenticated variant
+    fromLoading("authenticated", { error: "nope" });
+  };
+
+  const _testNestedPath = () => {
+    type Request = {
+      id: string;
+      result: { kind: "pending" } | { kind: "ok"; data: string };
+    };
+
+    const request = createDiscriminatedMachine<Request, "result.kind">(
+      "result.kind",
+    )({ pending: ["ok"], ok: [] });
+
+    const fromPending = request.useTransition("pending");
+    fromPending("ok", { id: "1", result: { data: "Done" } });
+
+    // @ts-expect-error - the ok variant's result requires data
+    fromPending("ok", { id: "1", result: {} });
+  };
+
+  const _testMissingVariant = () => {
+    // @ts-expect-error - every variant must declare its targets
+    createDiscriminatedMachine<AuthState, "status">("status")({
+      idle: ["loading"],
+      loading: ["authenticated", "error"],
+      authenticated: ["idle"],
+      error: ["idle"],
+    });
+  };
+
+  const _testProvider = () => (
+    <machine.Provider initial={{ status: "idle" }}>{null}</machine.Provider>
+  );
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("createDiscriminatedMachine", () => {
+  it("should provide the initial state to useContext", () => {
+    const machine = createAuthMachine();
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <machine.Provider initial={{ status: "idle" }}>
+        {children}
+      </machine.Provider>
+    );
+
+    const { result } = renderHook(() => machine.useContext("idle"), {
+      wrapper,
+    });
+
+    assert.deepStrictEqual(result.current, { status: "idle" });
+  });
+
+  it("should move along declared edges with the target payload", () => {
+    const machine = createAuthMachine();
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <machine.Provider initial={{ status: "idle" }}>
+        {children}
+      </machine.Provider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        state: machine.useContext("default"),
+        fromIdle: machine.useTransition("idle"),
+        fromLoading: machine.useTransition("loading"),
+      }),
+      { wrapper },
+    );
+
+    act(() => {
+      result.current.fromIdle("loading", { message: "Signing in..." });
+    });
+
+    assert.deepStrictEqual(result.current.state, {
+      status: "loading",
+      message: "Signing in...",
+    });
+
+    act(() => {
+      result.current.fromLoading("authenticated", {
+        user: { id: "1", name: "John" },
+      });
+    });
+
+    assert.deepStrictEqual(result.current.state, {
+      status: "authenticated",
+      user: { id: "1", name: "John" },
+    });
+  });
+
+  it("should throw in development when the variant has no such edge", () => {
+    const machine = createAuthMachine();
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <machine.Provider initial={{ status: "idle" }}>
+        {children}
+      </machine.Provider>
+    );
+
+    const { result } = renderHook(() => machine.useTransition("idle"), {
+      wrapper,
+    });
+
+    assert.throws(
+      () => {
+        result.current("error" as "loading");
+      },
+      {
+        message: "Illegal transition status=idle -> error",
+      },
+    );
+  });
+
+  it("should throw in development when the state has left the variant", () => {
+    const machine = createAuthMachine();
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <machine.Provider initial={{ status: "idle" }}>
+        {children}
+      </machine.Provider>
+    );
+
+    const { result } = renderHook(() => machine.useTransition("loading"), {
+      wrapper,
+    });
+
+    assert.throws(
+      () => {
+        result.current("error", { error: "Invalid credentials" });
+      },
+      {
+        message:
+          "Can't transition from status=loading: the state is status=idle",
+      },
+    );
+  });
+
+  it("should transition on a nested discriminant path", () => {
+    type Request = {
+      id: string;
+      result:
+        | { kind: "pending" }
+        | { kind: "ok"; data: string }
+        | { kind: "fail"; reason: string };
+    };
+
+    const request = createDiscriminatedMachine<Request, "result.kind">(
+      "result.kind",
+    )({
+      pending: ["ok", "fail"],
+      ok: [],
+      fail: ["pending"],
+    });
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <request.Provider initial={{ id: "1", result: { kind: "pending" } }}>
+        {children}
+      </request.Provider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        state: request.useContext("default"),
+        fromPending: request.useTransition("pending"),
+      }),
+      { wrapper },
+    );
+
+    act(() => {
+      result.current.fromPending("ok", { id: "1", result: { data: "Done" } });
+    });
+
+    assert.deepStrictEqual(result.current.state, {
+      id: "1",
+      result: { kind: "ok", data: "Done" },
+    });
+  });
+
+  it("should throw when useTransition is used outside the Provider", () => {
+    const machine = createAuthMachine();
+
+    assert.throws(
+      () => {
+        renderHook(() => machine.useTransition("idle"));
+      },
+      (error) => {
+        assert.ok(error instanceof MissingProviderError);
+        assert.strictEqual(
+          error.message,
+          "useTransition must be used within the machine's Provider. Wrap your component tree with <Provider>.",
+        );
+        return true;
+      },
+    );
+  });
+});
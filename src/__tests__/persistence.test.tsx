@@ -0,0 +1,271 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import React from "react";
+import { act, renderHook } from "@testing-library/react";
+import {
+  createDiscriminatedMachine,
+  createMemoryStorage,
+  createPersistence,
+} from "../index.js";
+
+// =============================================================================
+// Test Types
+// =============================================================================
+
+type Session = {
+  token: string;
+  expiresAt: Date;
+};
+
+type AuthState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "authenticated"; name: string; session: Session }
+  | { status: "locked"; unlockAt: Date };
+
+const expiresAt = new Date("2026-10-19T12:00:00.000Z");
+
+const authenticated: AuthState = {
+  status: "authenticated",
+  name: "John",
+  session: { token: "abc", expiresAt },
+};
+
+const createAuthPersistence = (
+  storage = createMemoryStorage(),
+  options: {
+    version?: number;
+    migrations?: Record<number, (value: unknown) => unknown>;
+    otherVariants?: "clear" | "keep";
+  } = {},
+) =>
+  createPersistence<AuthState, "status">("status", {
+    key: "auth",
+    variants: ["idle", "authenticated", "locked"],
+    storage,
+    ...options,
+  });
+
+// =============================================================================
+// Compile-time Type Tests
+// =============================================================================
+
+function _compileTimeTypeTests() {
+  createPersistence<AuthState, "status">("status", {
+    key: "auth",
+    // @ts-expect-error - persistable variants must be discriminant values
+    variants: ["idle", "unknown"],
+  });
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("createPersistence", () => {
+  it("should round-trip values with their Dates", () => {
+    const persistence = createAuthPersistence();
+
+    persistence.save(authenticated);
+    const loaded = persistence.load();
+
+    assert.deepStrictEqual(loaded, authenticated);
+    assert.ok(
+      loaded?.status === "authenticated" &&
+        loaded.session.expiresAt instanceof Date,
+    );
+  });
+
+  it("should not save variants that aren't persistable", () => {
+    const storage = createMemoryStorage();
+    const persistence = createAuthPersistence(storage);
+
+    persistence.save({ status: "idle" });
+    persistence.save({ status: "loading" });
+
+    assert.strictEqual(storage.getItem("auth"), null);
+    assert.strictEqual(persistence.load(), undefined);
+  });
+
+  it("should keep the stored value in other variants when asked to", () => {
+    const persistence = createAuthPersistence(createMemoryStorage(), {
+      otherVariants: "keep",
+    });
+
+    persistence.save({ status: "idle" });
+    persistence.save({ status: "loading" });
+
+    assert.deepStrictEqual(persistence.load(), { status: "idle" });
+  });
+
+  it("should not revive user objects that look like encoded Dates", () => {
+    const persistence = createPersistence<
+      { status: "saved"; meta: unknown },
+      "status"
+    >("status", {
+      key: "meta",
+      variants: ["saved"],
+      storage: createMemoryStorage(),
+    });
+    const value = {
+      status: "saved" as const,
+      meta: {
+        note: { $date: "2026-10-19" },
+        escaped: { $$date: "2026-10-19" },
+        date: expiresAt,
+      },
+    };
+
+    persistence.save(value);
+
+    assert.deepStrictEqual(persistence.load(), value);
+  });
+
+  it("should migrate values stored under older versions", () => {
+    const storage = createMemoryStorage({
+      auth: JSON.stringify({
+        version: 1,
+        value: { status: "locked", until: "2026-10-19T12:00:00.000Z" },
+      }),
+    });
+    const persistence = createAuthPersistence(storage, {
+      version: 3,
+      migrations: {
+        2: (value) => {
+          const { until, ...rest } = value as { until: string };
+          return { ...rest, unlockAt: until };
+        },
+        3: (value) => ({
+          ...(value as object),
+          unlockAt: new Date((value as { unlockAt: string }).unlockAt),
+        }),
+      },
+    });
+
+    assert.deepStrictEqual(persistence.load(), {
+      status: "locked",
+      unlockAt: expiresAt,
+    });
+  });
+
+  it("should discard values that can't be migrated or parsed", () => {
+    const storage = createMemoryStorage({
+      auth: JSON.stringify({ version: 1, value: { status: "idle" } }),
+    });
+
+    assert.strictEqual(
+      createAuthPersistence(storage, { version: 2 }).load(),
+      undefined,
+    );
+    assert.strictEqual(
+      createAuthPersistence(storage, { version: 0 }).load(),
+      undefined,
+    );
+
+    storage.setItem("auth", "{not json");
+    assert.strictEqual(
+      createAuthPersistence(storage).load(),
+      undefined,
+    );
+  });
+
+  it("should discard values a migration throws on", () => {
+    const storage = createMemoryStorage({
+      auth: JSON.stringify({ version: 1, value: { status: "idle" } }),
+    });
+    const persistence = createAuthPersistence(storage, {
+      version: 2,
+      migrations: {
+        2: () => {
+          throw new Error("Unexpected shape");
+        },
+      },
+    });
+
+    assert.strictEqual(persistence.load(), undefined);
+  });
+
+  it("should ignore errors thrown by the storage", () => {
+    const fail = () => {
+      throw new Error("QuotaExceededError");
+    };
+    const persistence = createAuthPersistence({
+      getItem: fail,
+      setItem: fail,
+      removeItem: fail,
+    });
+
+    assert.doesNotThrow(() => persistence.save(authenticated));
+    assert.doesNotThrow(() => persistence.clear());
+    assert.strictEqual(persistence.load(), undefined);
+  });
+
+  it("should clear the stored value", () => {
+    const persistence = createAuthPersistence();
+
+    persistence.save(authenticated);
+    persistence.clear();
+
+    assert.strictEqual(persistence.load(), undefined);
+  });
+
+  it("should rehydrate usePersistedState on mount and save changes", () => {
+    const storage = createMemoryStorage();
+    createAuthPersistence(storage).save(authenticated);
+    const persistence = createAuthPersistence(storage);
+
+    const { result } = renderHook(() =>
+      persistence.usePersistedState({ status: "idle" }),
+    );
+
+    assert.deepStrictEqual(result.current[0], authenticated);
+
+    act(() => {
+      result.current[1]({ status: "locked", unlockAt: expiresAt });
+    });
+
+    assert.deepStrictEqual(persistence.load(), {
+      status: "locked",
+      unlockAt: expiresAt,
+    });
+  });
+
+  it("should rehydrate a machine Provider and keep transitions working", () => {
+    const storage = createMemoryStorage();
+    createAuthPersistence(storage).save(authenticated);
+    const persistence = createAuthPersistence(storage);
+    const machine = createDiscriminatedMachine<AuthState, "status">(
+      "status",
+    )({
+      idle: ["loading"],
+      loading: ["authenticated"],
+      authenticated: ["idle", "locked"],
+      locked: ["idle"],
+    });
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <machine.Provider
+        initial={{ status: "idle" }}
+        persistence={persistence}
+      >
+        {children}
+      </machine.Provider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        state: machine.useContext("default"),
+        fromAuthenticated: machine.useTransition("authenticated"),
+      }),
+      { wrapper },
+    );
+
+    assert.deepStrictEqual(result.current.state, authenticated);
+
+    act(() => {
+      result.current.fromAuthenticated("idle");
+    });
+
+    assert.deepStrictEqual(persistence.load(), { status: "idle" });
+  });
+});
@@ -0,0 +1,208 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import React from "react";
+import { act, renderHook } from "@testing-library/react";
+import { createAsyncResource } from "../index.js";
+
+// =============================================================================
+// Test Helpers
+// =============================================================================
+
+type User = { id: string; name: string };
+
+/**
+ * A request whose outcome the test decides, recording the signal it was given.
+ */
+function createDeferredLoader() {
+  const requests: {
+    id: string;
+    signal: AbortSignal;
+    resolve: (user: User) => void;
+    reject: (error: Error) => void;
+  }[] = [];
+
+  const load = (id: string, signal: AbortSignal) =>
+    new Promise<User>((resolve, reject) => {
+      requests.push({ id, signal, resolve, reject });
+    });
+
+  return { load, requests };
+}
+
+function renderResource(
+  resource: ReturnType<typeof createAsyncResource<string, User, Error>>,
+) {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <resource.Provider>{children}</resource.Provider>
+  );
+
+  return renderHook(
+    () => ({
+      state: resource.useContext("default"),
+      controls: resource.useResource(),
+    }),
+    { wrapper },
+  );
+}
+
+// =============================================================================
+// Compile-time Type Tests
+// =============================================================================
+
+function _compileTimeTypeTests() {
+  const resource = createAsyncResource(
+    async (id: string, _signal: AbortSignal): Promise<User> => ({
+      id,
+      name: "John",
+    }),
+  );
+
+  const _user: User = resource.useContext("success").data;
+  const _previous: User | undefined =
+    resource.useContext("loading").previousData;
+  const _error: unknown = resource.useContext("error").error;
+
+  // @ts-expect-error - run takes the load function's arguments
+  resource.useResource().run(42);
+
+  // @ts-expect-error - data only exists on the success variant
+  resource.useContext("loading").data;
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("createAsyncResource", () => {
+  it("should move through loading to success", async () => {
+    const { load, requests } = createDeferredLoader();
+    const { result } = renderResource(createAsyncResource(load));
+
+    assert.deepStrictEqual(result.current.state, { status: "idle" });
+
+    let running: Promise<void> | undefined;
+    act(() => {
+      running = result.current.controls.run("1");
+    });
+
+    assert.deepStrictEqual(result.current.state, { status: "loading" });
+
+    await act(async () => {
+      requests[0]?.resolve({ id: "1", name: "John" });
+      await running;
+    });
+
+    assert.deepStrictEqual(result.current.state, {
+      status: "success",
+      data: { id: "1", name: "John" },
+    });
+  });
+
+  it("should report failures through the error state", async () => {
+    const { load, requests } = createDeferredLoader();
+    const { result } = renderResource(
+      createAsyncResource<string, User, Error>(load),
+    );
+
+    await act(async () => {
+      const running = result.current.controls.run("1");
+      requests[0]?.reject(new Error("Not found"));
+      await running;
+    });
+
+    const { state } = result.current;
+    assert.ok(state.status === "error");
+    assert.strictEqual(state.error.message, "Not found");
+  });
+
+  it("should abort and ignore stale requests", async () => {
+    const { load, requests } = createDeferredLoader();
+    const { result } = renderResource(createAsyncResource(load));
+
+    await act(async () => {
+      const first = result.current.controls.run("1");
+      const second = result.current.controls.run("2");
+      requests[1]?.resolve({ id: "2", name: "Jane" });
+      requests[0]?.resolve({ id: "1", name: "John" });
+      await Promise.all([first, second]);
+    });
+
+    assert.strictEqual(requests[0]?.signal.aborted, true);
+    assert.strictEqual(requests[1]?.signal.aborted, false);
+    assert.deepStrictEqual(result.current.state, {
+      status: "success",
+      data: { id: "2", name: "Jane" },
+    });
+  });
+
+  it("should keep the previous data while reloading when asked to", async () => {
+    const { load, requests } = createDeferredLoader();
+    const { result } = renderResource(
+      createAsyncResource(load, { keepPreviousData: true }),
+    );
+
+    await act(async () => {
+      const running = result.current.controls.run("1");
+      requests[0]?.resolve({ id: "1", name: "John" });
+      await running;
+    });
+
+    act(() => {
+      void result.current.controls.run("2");
+    });
+
+    assert.deepStrictEqual(result.current.state, {
+      status: "loading",
+      previousData: { id: "1", name: "John" },
+    });
+  });
+
+  it("should make the state readable by scope", () => {
+    const { load } = createDeferredLoader();
+    const resource = createAsyncResource(load);
+
+    const { result } = renderHook(
+      () => ({
+        nearest: resource.useContext("default"),
+        root: resource.useContext("default", { scope: "root" }),
+        controls: resource.useResource(),
+      }),
+      {
+        wrapper: ({ children }) => (
+          <resource.Provider scope="root">
+            <resource.Provider>{children}</resource.Provider>
+          </resource.Provider>
+        ),
+      },
+    );
+
+    act(() => {
+      void result.current.controls.run("1");
+    });
+
+    assert.deepStrictEqual(result.current.nearest, { status: "loading" });
+    assert.deepStrictEqual(result.current.root, { status: "idle" });
+  });
+
+  it("should abort the request in flight on reset and unmount", () => {
+    const { load, requests } = createDeferredLoader();
+    const { result, unmount } = renderResource(
+      createAsyncResource(load),
+    );
+
+    act(() => {
+      void result.current.controls.run("1");
+      result.current.controls.reset();
+    });
+
+    assert.strictEqual(requests[0]?.signal.aborted, true);
+    assert.deepStrictEqual(result.current.state, { status: "idle" });
+
+    act(() => {
+      void result.current.controls.run("2");
+    });
+    unmount();
+
+    assert.strictEqual(requests[1]?.signal.aborted, true);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert";
+import React from "react";
+import { renderToString } from "react-dom/server";
+import { act, render } from "@testing-library/react";
+import {
+  createDiscriminatedContext,
+  createHydration,
+} from "../index.js";
+
+// =============================================================================
+// Test Types
+// =============================================================================
+
+type AuthState =
+  | { status: "idle" }
+  | { status: "authenticated"; name: string; expiresAt: Date }
+  | { status: "locked"; reason: string; unlockAt: Date };
+
+const authenticated: AuthState = {
+  status: "authenticated",
+  name: "John",
+  expiresAt: new Date("2026-10-19T12:00:00.000Z"),
+};
+
+const auth = createDiscriminatedContext<AuthState, "status">("status");
+const authHydration = createHydration<AuthState, "status">("status", {
+  id: "auth-state",
+});
+
+function Expiry() {
+  return (
+    <p>{auth.useContext("authenticated").expiresAt.toISOString()}</p>
+  );
+}
+
+function App({ serverAuth }: { serverAuth?: AuthState }) {
+  const [value] = authHydration.useHydratedState(
+    serverAuth ?? { status: "idle" },
+  );
+
+  return (
+    <auth.Context.Provider value={value}>
+      <authHydration.Script value={value} />
+      <auth.Match
+        authenticated={() => <Expiry />}
+        otherwise={() => null}
+      />
+    </auth.Context.Provider>
+  );
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("createHydration", () => {
+  it("should escape characters that could close the script element", () => {
+    const payload = authHydration.serialize({
+      status: "locked",
+      reason: "</script><script>alert(1)</script> & \u2028",
+      unlockAt: new Date("2026-10-19T12:00:00.000Z"),
+    });
+
+    assert.ok(!payload.includes("<"));
+    assert.ok(!payload.includes("\u2028"));
+    assert.ok(
+      payload.includes(
+        '"unlockAt":{"$date":"2026-10-19T12:00:00.000Z"}',
+      ),
+    );
+    assert.deepStrictEqual(
+      JSON.parse(payload).reason,
+      "</script><script>alert(1)</script> & \u2028",
+    );
+  });
+
+  it("should hydrate the Provider with the server's value, Dates included", () => {
+    const consoleError = mock.method(console, "error", () => {});
+    const container = document.createElement("div");
+    container.innerHTML = renderToString(
+      <App serverAuth={authenticated} />,
+    );
+    document.body.appendChild(container);
+
+    try {
+      assert.deepStrictEqual(authHydration.read(), authenticated);
+
+      act(() => {
+        render(<App />, { container, hydrate: true });
+      });
+
+      assert.strictEqual(
+        container.querySelector("p")?.textContent,
+        "2026-10-19T12:00:00.000Z",
+      );
+      assert.strictEqual(consoleError.mock.callCount(), 0);
+    } finally {
+      consoleError.mock.restore();
+      container.remove();
+    }
+  });
+
+  it("should fall back to the initial value without an embedded one", () => {
+    assert.strictEqual(authHydration.read(), undefined);
+
+    const { container } = render(<App />);
+
+    assert.strictEqual(container.querySelector("p"), null);
+    assert.deepStrictEqual(
+      JSON.parse(container.querySelector("script")?.textContent ?? ""),
+      { status: "idle" },
+    );
+  });
+});
@@ -0,0 +1,305 @@
+import { describe, it, mock } from "node:test";
+import assert from "node:assert";
+import React from "react";
+import { act, renderHook } from "@testing-library/react";
+import {
+  createDiscriminatedContext,
+  createDiscriminatedStore,
+  DiscriminantMismatchError,
+} from "../index.js";
+import { createManualClock } from "../testing.js";
+
+// =============================================================================
+// Test Types
+// =============================================================================
+
+type AuthState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "authenticated"; name: string }
+  | { status: "error"; error: string };
+
+type LockState =
+  | { status: "idle" }
+  | { status: "locked"; unlockAt: Date }
+  | { status: "authenticated"; expiresAt: number }
+  | { status: "refreshing" };
+
+const createLockStore = (
+  clock: ReturnType<typeof createManualClock>,
+  initial: LockState,
+) =>
+  createDiscriminatedStore<LockState, "status">("status", initial, {
+    clock,
+    schedule: {
+      locked: {
+        at: (state) => state.unlockAt,
+        to: () => ({ status: "idle" }),
+      },
+      authenticated: {
+        at: (state) => state.expiresAt - 60_000,
+        to: () => ({ status: "refreshing" }),
+      },
+    },
+  });
+
+const createAuthStore = (initial: AuthState = { status: "idle" }) =>
+  createDiscriminatedStore<AuthState, "status">("status", initial, {
+    name: "AuthStore",
+  });
+
+// =============================================================================
+// Compile-time Type Tests
+// =============================================================================
+
+function _compileTimeTypeTests() {
+  const store = createAuthStore();
+
+  const _name: string = store.expect("authenticated").name;
+  const _patternName: string = store.expect({
+    status: "authenticated",
+  }).name;
+  const _status: "loading" | "error" = store.expect([
+    "loading",
+    "error",
+  ]).status;
+
+  // @ts-expect-error - name doesn't exist on the error variant
+  store.expect("error").name;
+
+  // @ts-expect-error - 'unknown' is not a valid discriminant value
+  store.is("unknown");
+
+  // @ts-expect-error - values must be union members
+  store.set({ status: "authenticated" });
+
+  createDiscriminatedStore<LockState, "status">(
+    "status",
+    { status: "idle" },
+    {
+      schedule: {
+        idle: {
+          // @ts-expect-error - the idle variant has no unlockAt
+          at: (state) => state.unlockAt,
+          to: () => ({ status: "idle" }),
+        },
+      },
+    },
+  );
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("createDiscriminatedStore", () => {
+  it("should notify subscribers of new values until they unsubscribe", () => {
+    const store = createAuthStore();
+    const listener = mock.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    store.set({ status: "loading" });
+    store.set(store.get());
+    unsubscribe();
+    store.set({ status: "error", error: "Timeout" });
+
+    assert.deepStrictEqual(
+      listener.mock.calls.map((call) => call.arguments),
+      [[{ status: "loading" }]],
+    );
+    assert.deepStrictEqual(store.get(), {
+      status: "error",
+      error: "Timeout",
+    });
+  });
+
+  it("should deliver values set by a listener in order", () => {
+    const store = createAuthStore();
+    const seen: string[] = [];
+
+    store.subscribe((value) => {
+      seen.push(`first: ${value.status}`);
+
+      if (value.status === "loading") {
+        store.set({ status: "error", error: "Timeout" });
+      }
+    });
+    store.subscribe((value) => {
+      seen.push(`second: ${value.status}`);
+    });
+
+    store.set({ status: "loading" });
+
+    assert.deepStrictEqual(seen, [
+      "first: loading",
+      "second: loading",
+      "first: error",
+      "second: error",
+    ]);
+  });
+
+  it("should check the current value with is", () => {
+    const store = createAuthStore({
+      status: "authenticated",
+      name: "John",
+    });
+
+    assert.strictEqual(store.is("authenticated"), true);
+    assert.strictEqual(store.is(["idle", "loading"]), false);
+    assert.strictEqual(store.is({ status: "authenticated" }), true);
+  });
+
+  it("should narrow with expect and throw on a mismatch", () => {
+    const store = createAuthStore({
+      status: "error",
+      error: "Timeout",
+    });
+
+    assert.strictEqual(store.expect("error").error, "Timeout");
+    assert.throws(
+      () => store.expect(["idle", "authenticated"]),
+      (error: unknown) => {
+        assert.ok(error instanceof DiscriminantMismatchError);
+        assert.strictEqual(
+          error.message,
+          "[AuthStore] Expected status=idle | authenticated, got error",
+        );
+        assert.strictEqual(error.contextName, "AuthStore");
+        return true;
+      },
+    );
+  });
+
+  it("should drive a context's StoreProvider", () => {
+    const store = createAuthStore();
+    const auth = createDiscriminatedContext<AuthState, "status">(
+      "status",
+    );
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <auth.StoreProvider store={store}>{children}</auth.StoreProvider>
+    );
+
+    const { result } = renderHook(
+      () => ({
+        status: auth.useContext("default").status,
+        name: auth.useSelector("default", (value) => value.name),
+      }),
+      { wrapper },
+    );
+
+    assert.deepStrictEqual(result.current, {
+      status: "idle",
+      name: undefined,
+    });
+
+    act(() => {
+      store.set({ status: "authenticated", name: "John" });
+    });
+
+    assert.deepStrictEqual(result.current, {
+      status: "authenticated",
+      name: "John",
+    });
+  });
+
+  describe("scheduled transitions", () => {
+    it("should transition when the variant's time comes", () => {
+      const clock = createManualClock(0);
+      const store = createLockStore(clock, {
+        status: "locked",
+        unlockAt: new Date(5_000),
+      });
+
+      clock.advance(4_999);
+      assert.strictEqual(store.get().status, "locked");
+
+      clock.advance(1);
+      assert.deepStrictEqual(store.get(), { status: "idle" });
+    });
+
+    it("should schedule on entering a variant and chain transitions", () => {
+      const clock = createManualClock(0);
+      const store = createLockStore(clock, { status: "idle" });
+      const statuses: string[] = [];
+      store.subscribe((value) => statuses.push(value.status));
+
+      store.set({ status: "authenticated", expiresAt: 120_000 });
+      clock.advance(60_000);
+
+      assert.deepStrictEqual(statuses, ["authenticated", "refreshing"]);
+    });
+
+    it("should clear the timer when the variant is left", () => {
+      const clock = createManualClock(0);
+      const store = createLockStore(clock, {
+        status: "locked",
+        unlockAt: new Date(5_000),
+      });
+
+      store.set({ status: "authenticated", expiresAt: 600_000 });
+      clock.advance(5_000);
+
+      assert.strictEqual(store.get().status, "authenticated");
+    });
+
+    it("should reschedule when the variant's data changes", () => {
+      const clock = createManualClock(0);
+      const store = createLockStore(clock, {
+        status: "locked",
+        unlockAt: new Date(5_000),
+      });
+
+      store.set({ status: "locked", unlockAt: new Date(10_000) });
+      clock.advance(5_000);
+      assert.strictEqual(store.get().status, "locked");
+
+      clock.advance(5_000);
+      assert.strictEqual(store.get().status, "idle");
+    });
+
+    it("should transition right away for times in the past", () => {
+      const clock = createManualClock(10_000);
+      const store = createLockStore(clock, {
+        status: "locked",
+        unlockAt: new Date(5_000),
+      });
+
+      clock.advance(0);
+
+      assert.strictEqual(store.get().status, "idle");
+    });
+
+    it("should cancel the timer once destroyed", () => {
+      const clock = createManualClock(0);
+      const store = createLockStore(clock, {
+        status: "locked",
+        unlockAt: new Date(5_000),
+      });
+      const listener = mock.fn();
+      store.subscribe(listener);
+
+      store.destroy();
+      clock.advance(5_000);
+      store.set({ status: "locked", unlockAt: new Date(6_000) });
+      clock.advance(1_000);
+
+      assert.strictEqual(store.get().status, "locked");
+      assert.strictEqual(listener.mock.callCount(), 0);
+    });
+
+    it("should wait beyond the longest setTimeout delay", () => {
+      const clock = createManualClock(0);
+      const unlockAt = new Date(2 ** 31 + 1_000);
+      const store = createLockStore(clock, {
+        status: "locked",
+        unlockAt,
+      });
+
+      clock.advance(2 ** 31);
+      assert.strictEqual(store.get().status, "locked");
+
+      clock.advance(1_000);
+      assert.strictEqual(store.get().status, "idle");
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert";
+import {
+  createDiscriminatedStore,
+  syncStore,
+  type StoreSyncOptions,
+} from "../index.js";
+import { createManualClock } from "../testing.js";
+
+// =============================================================================
+// Test Types
+// =============================================================================
+
+type AuthState =
+  | { status: "idle" }
+  | { status: "loading" }
+  | { status: "authenticated"; name: string; since: Date }
+  | { status: "error"; error: string };
+
+const createAuthStore = () =>
+  createDiscriminatedStore<AuthState, "status">("status", {
+    status: "idle",
+  });
+
+/**
+ * Resolves with the store's next `count` values, failing if they don't arrive
+ * in time.
+ */
+function changes<TValue>(
+  store: { subscribe(listener: (value: TValue) => void): () => void },
+  count = 1,
+  timeout = 5_000,
+): Promise<TValue[]> {
+  return new Promise((resolve, reject) => {
+    const values: TValue[] = [];
+    const timer = setTimeout(() => {
+      unsubscribe();
+      reject(new Error(`Expected ${count} changes, got ${values.length}`));
+    }, timeout);
+    const unsubscribe = store.subscribe((value) => {
+      values.push(value);
+
+      if (values.length === count) {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(values);
+      }
+    });
+  });
+}
+
+let channelCount = 0;
+const stops: (() => void)[] = [];
+
+/**
+ * Syncs two stores, standing for two tabs, over a fresh channel.
+ */
+function createTabs(
+  options: Omit<StoreSyncOptions<AuthState, "status">, "channel"> = {},
+) {
+  const channel = `auth-${channelCount++}`;
+  const first = createAuthStore();
+  const second = createAuthStore();
+  const firstClock = createManualClock(1_000);
+  const secondClock = createManualClock(2_000);
+
+  stops.push(
+    syncStore(first, { ...options, channel, clock: firstClock }),
+    syncStore(second, { ...options, channel, clock: secondClock }),
+  );
+
+  return { first, second, firstClock };
+}
+
+afterEach(() => {
+  stops.splice(0).forEach((stop) => stop());
+  localStorage.clear();
+});
+
+// =============================================================================
+// Compile-time Type Tests
+// =============================================================================
+
+function _compileTimeTypeTests() {
+  const store = createAuthStore();
+
+  syncStore(store, {
+    channel: "auth",
+    variants: ["idle", "authenticated"],
+    conflict: (local, remote) =>
+      remote.status === "idle" ? remote : local,
+  });
+
+  // @ts-expect-error - 'unknown' is not a valid discriminant value
+  syncStore(store, { channel: "auth", variants: ["unknown"] });
+
+  // @ts-expect-error - not a conflict policy
+  syncStore(store, { channel: "auth", conflict: "first-write-wins" });
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("syncStore", () => {
+  it("should apply changes made in other tabs, Dates included", async () => {
+    const { first, second } = createTabs();
+    const since = new Date("2026-01-01T00:00:00Z");
+
+    const received = changes(second);
+    first.set({ status: "authenticated", name: "John", since });
+
+    assert.deepStrictEqual(await received, [
+      { status: "authenticated", name: "John", since },
+    ]);
+  });
+
+  it("should not broadcast applied changes back", async () => {
+    const { first, second } = createTabs();
+    const listener = mock.fn();
+    first.subscribe(listener);
+
+    const applied = changes(first);
+    second.set({ status: "loading" });
+    await applied;
+
+    // A later change from the same tab arrives after any echo round trip
+    const received = changes(first);
+    second.set({ status: "idle" });
+    await received;
+
+    assert.strictEqual(listener.mock.callCount(), 2);
+    assert.deepStrictEqual(first.get(), { status: "idle" });
+  });
+
+  it("should only propagate the listed variants", async () => {
+    const { first, second } = createTabs({
+      variants: ["idle", "authenticated"],
+    });
+
+    const received = changes(second);
+    first.set({ status: "loading" });
+    first.set({
+      status: "authenticated",
+      name: "John",
+      since: new Date(0),
+    });
+
+    // Messages from a tab arrive in order, so "loading" would have come first
+    const [value] = await received;
+    assert.strictEqual(value?.status, "authenticated");
+  });
+
+  it("should stop syncing once stopped", async () => {
+    const { first, second } = createTabs();
+
+    stops.splice(0).forEach((stop) => stop());
+    first.set({ status: "loading" });
+
+    await assert.rejects(changes(second, 1, 100));
+    assert.strictEqual(second.get().status, "idle");
+  });
+
+  describe("conflicts", () => {
+    it("should keep the last write by default", async () => {
+      const { first, second, firstClock } = createTabs();
+      const secondStatuses: string[] = [];
+      second.subscribe((value) => secondStatuses.push(value.status));
+
+      // The first tab's clock is behind the second's
+      first.set({ status: "error", error: "Timeout" });
+      second.set({ status: "loading" });
+      const applied = changes(first);
+      const received = changes(second);
+
+      assert.deepStrictEqual(await applied, [{ status: "loading" }]);
+
+      // Arrives after the stale "error", which the second tab must have ignored
+      firstClock.advance(10_000);
+      first.set({ status: "idle" });
+      await received;
+
+      assert.deepStrictEqual(secondStatuses, ["loading", "idle"]);
+    });
+
+    it("should take the other tab's change with remote-wins", async () => {
+      const { first, second } = createTabs({
+        conflict: "remote-wins",
+      });
+
+      first.set({ status: "error", error: "Timeout" });
+      second.set({ status: "loading" });
+      const [applied, received] = await Promise.all([
+        changes(first),
+        changes(second),
+      ]);
+
+      assert.deepStrictEqual(applied, [{ status: "loading" }]);
+      assert.deepStrictEqual(received, [
+        { status: "error", error: "Timeout" },
+      ]);
+    });
+
+    it("should broadcast what a resolver chooses", async () => {
+      const conflict = mock.fn(
+        (local: AuthState, remote: AuthState): AuthState =>
+          remote.status === "idle" ? remote : local,
+      );
+      const { first, second } = createTabs({ conflict });
+
+      first.set({ status: "idle" });
+      second.set({
+        status: "authenticated",
+        name: "John",
+        since: new Date(0),
+      });
+      const [applied, resolved] = await Promise.all([
+        changes(first, 2),
+        changes(second),
+      ]);
+
+      assert.deepStrictEqual(
+        applied.map((value) => value.status),
+        ["authenticated", "idle"],
+      );
+      assert.deepStrictEqual(
+        resolved.map((value) => value.status),
+        ["idle"],
+      );
+      assert.deepStrictEqual(
+        conflict.mock.calls.map((call) =>
+          call.arguments.map((value) => value.status),
+        ),
+        [["authenticated", "idle"]],
+      );
+    });
+  });
+
+  describe("storage transport", () => {
+    const dispatchChange = (key: string, value: AuthState) =>
+      window.dispatchEvent(
+        new window.StorageEvent("storage", {
+          key,
+          newValue: JSON.stringify({
+            source: "other-tab",
+            at: Date.now(),
+            value,
+          }),
+        }),
+      );
+
+    it("should write changes to localStorage", () => {
+      const store = createAuthStore();
+      stops.push(
+        syncStore(store, { channel: "auth", transport: "storage" }),
+      );
+
+      store.set({ status: "error", error: "Timeout" });
+
+      const written = JSON.parse(
+        localStorage.getItem("auth") ?? "null",
+      );
+      assert.deepStrictEqual(written.value, {
+        status: "error",
+        error: "Timeout",
+      });
+    });
+
+    it("should apply changes from storage events", () => {
+      const store = createAuthStore();
+      stops.push(
+        syncStore(store, { channel: "auth", transport: "storage" }),
+      );
+
+      dispatchChange("other-key", {
+        status: "error",
+        error: "Timeout",
+      });
+      assert.strictEqual(store.get().status, "idle");
+
+      dispatchChange("auth", { status: "error", error: "Timeout" });
+      assert.deepStrictEqual(store.get(), {
+        status: "error",
+        error: "Timeout",
+      });
+    });
+
+    it("should ignore changes to variants that don't propagate", () => {
+      const store = createAuthStore();
+      stops.push(
+        syncStore(store, {
+          channel: "auth",
+          transport: "storage",
+          variants: ["idle", "authenticated"],
+        }),
+      );
+
+      dispatchChange("auth", { status: "loading" });
+
+      assert.strictEqual(store.get().status, "idle");
+    });
+  });
+});
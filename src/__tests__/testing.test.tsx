@@ -0,0 +1,190 @@
+import { describe, it } from "node:test";
+import assert from "node:assert";
+import React from "react";
+import { createDiscriminatedContext } from "../index.js";
+import {
+  eachVariant,
+  renderInVariant,
+  withFixtures,
+  type VariantFixtures,
+} from "../testing.js";
+
+// =============================================================================
+// Test Types
+// =============================================================================
+
+type AuthState =
+  | { status: "idle" }
+  | { status: "authenticated"; name: string; admin: boolean }
+  | { status: "error"; error: string; retryable: boolean };
+
+const auth = withFixtures(
+  createDiscriminatedContext<AuthState, "status">("status", {
+    values: ["idle", "authenticated", "error"],
+  }),
+  {
+    idle: {},
+    authenticated: { name: "John", admin: false },
+    error: { error: "Timeout", retryable: true },
+  },
+);
+
+function AuthStatus() {
+  return (
+    <auth.Match
+      idle={() => "Signed out"}
+      authenticated={(value) => `Signed in as ${value.name}`}
+      error={(value) => `Failed: ${value.error}`}
+    />
+  );
+}
+
+// =============================================================================
+// Compile-time Type Tests
+// =============================================================================
+
+function _compileTimeTypeTests() {
+  const _retryable: boolean = auth.build("error").retryable;
+  const _name: string = renderInVariant(auth, "authenticated").value
+    .name;
+
+  withFixtures(
+    createDiscriminatedContext<AuthState, "status">("status"),
+    // @ts-expect-error - every variant needs a fixture
+    {
+      idle: {},
+      authenticated: { name: "John", admin: false },
+    },
+  );
+
+  // @ts-expect-error - overrides are limited to the variant's fields
+  auth.build("error", { name: "John" });
+
+  // @ts-expect-error - 'unknown' is not a valid discriminant value
+  renderInVariant(auth, "unknown");
+}
+
+// =============================================================================
+// Runtime Tests
+// =============================================================================
+
+describe("testing utilities", () => {
+  it("should build values from fixtures and overrides", () => {
+    assert.deepStrictEqual(
+      auth.build("authenticated", { admin: true }),
+      {
+        status: "authenticated",
+        name: "John",
+        admin: true,
+      },
+    );
+    assert.deepStrictEqual(auth.build("idle"), { status: "idle" });
+  });
+
+  it("should render components in the given variant", () => {
+    const { render, value } = renderInVariant(auth, "error", {
+      error: "Offline",
+    });
+
+    const { container } = render(<AuthStatus />);
+
+    assert.strictEqual(container.textContent, "Failed: Offline");
+    assert.strictEqual(value.retryable, true);
+  });
+
+  it("should provide the value to selectors", () => {
+    const { renderHook } = renderInVariant(auth, "authenticated");
+
+    const { result } = renderHook(() =>
+      auth.useSelector("authenticated", (value) => value.name),
+    );
+
+    assert.strictEqual(result.current, "John");
+  });
+
+  it("should run the body once per variant", () => {
+    const rendered: string[] = [];
+
+    eachVariant(auth, (variant, value) => {
+      const { render } = renderInVariant(auth, variant);
+      const { container, unmount } = render(<AuthStatus />);
+
+      assert.strictEqual(value.status, variant);
+      rendered.push(container.textContent ?? "");
+      unmount();
+    });
+
+    assert.deepStrictEqual(rendered, [
+      "Signed out",
+      "Signed in as John",
+      "Failed: Timeout",
+    ]);
+  });
+
+  it("should throw when fixtures don't match the declared values", () => {
+    const fixtures = {
+      idle: {},
+      authenticated: { name: "John", admin: false },
+      locked: {},
+    };
+
+    assert.throws(
+      () =>
+        withFixtures(
+          createDiscriminatedContext<AuthState, "status">("status", {
+            values: ["idle", "authenticated", "error"],
+          }),
+          fixtures as unknown as VariantFixtures<AuthState, "status">,
+        ),
+      {
+        message:
+          "Fixtures don't match the context's values: no fixture for error, a fixture for unknown variant locked",
+      },
+    );
+  });
+
+  it("should run each fixture key without declared values", () => {
+    const undeclared = withFixtures(
+      createDiscriminatedContext<AuthState, "status">("status"),
+      {
+        idle: {},
+        authenticated: { name: "John", admin: false },
+        error: { error: "Timeout", retryable: true },
+      },
+    );
+    const variants: string[] = [];
+
+    eachVariant(undeclared, (variant) => variants.push(variant));
+
+    assert.deepStrictEqual(variants, ["idle", "authenticated", "error"]);
+  });
+
+  it("should keep numeric-looking string discriminants as strings", () => {
+    type Response = { code: "200" } | { code: "404"; path: string };
+
+    const response = withFixtures(
+      createDiscriminatedContext<Response, "code">("code"),
+      { 200: {}, 404: { path: "/missing" } },
+    );
+
+    assert.deepStrictEqual(response.variants, ["200", "404"]);
+    assert.deepStrictEqual(response.build("404"), {
+      code: "404",
+      path: "/missing",
+    });
+  });
+
+  it("should take non-string discriminants from the declared values", () => {
+    type Step = { step: 1 } | { step: 2; done: boolean };
+
+    const wizard = withFixtures(
+      createDiscriminatedContext<Step, "step">("step", { values: [1, 2] }),
+      { 1: {}, 2: { done: false } },
+    );
+    const steps: unknown[] = [];
+
+    eachVariant(wizard, (_step, value) => steps.push(value.step));
+
+    assert.deepStrictEqual(steps, [1, 2]);
+  });
+});
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from "node:fs";
+import { basename } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  generateDiscriminatedContexts,
+  SchemaCodegenError,
+} from "./codegen.js";
+
+const USAGE = `Usage: discriminated-union-codegen <schema.json> [options]
+
+Generates discriminated union types and contexts from the oneOf schemas of a
+JSON Schema or OpenAPI document.
+
+Options:
+  -o, --out <file>      Write to a file instead of stdout
+  --validators          Generate validators, checked by each context in development
+  --name <name>         Name of the union at the document's root
+  --import <module>     Module to import createDiscriminatedContext from
+  -h, --help            Show this message`;
+
+/**
+ * Runs the CLI with the given arguments, returning the exit code.
+ */
+function main(args: readonly string[]): number {
+  let parsed;
+
+  try {
+    parsed = parseArgs({
+      args: [...args],
+      allowPositionals: true,
+      options: {
+        out: { type: "string", short: "o" },
+        validators: { type: "boolean" },
+        name: { type: "string" },
+        import: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const { values, positionals } = parsed;
+  const [input] = positionals;
+
+  if (values.help === true) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (input === undefined || positionals.length > 1) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  try {
+    const source = generateDiscriminatedContexts(
+      JSON.parse(readFileSync(input, "utf8")),
+      {
+        importPath: values.import,
+        validators: values.validators,
+        name: values.name,
+        source: basename(input),
+      },
+    );
+
+    if (values.out === undefined) {
+      process.stdout.write(source);
+    } else {
+      writeFileSync(values.out, source);
+    }
+
+    return 0;
+  } catch (error) {
+    console.error(
+      error instanceof SchemaCodegenError
+        ? `${input}${error.pointer}: ${error.message}`
+        : `${input}: ${(error as Error).message}`,
+    );
+    return 1;
+  }
+}
+
+process.exitCode = main(process.argv.slice(2));
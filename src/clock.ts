@@ -0,0 +1,116 @@
+/**
+ * The source of time for scheduled transitions. Inject one to control time in tests.
+ */
+export type Clock = {
+  /**
+   * The current time, in milliseconds since the epoch.
+   */
+  now(): number;
+  /**
+   * Calls `callback` after `delay` milliseconds; returns a handle for clearTimeout.
+   */
+  setTimeout(callback: () => void, delay: number): unknown;
+  /**
+   * Cancels a callback scheduled with setTimeout.
+   */
+  clearTimeout(handle: unknown): void;
+};
+
+/**
+ * The real clock: Date.now and the global timers.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delay) => setTimeout(callback, delay),
+  clearTimeout: (handle) => {
+    clearTimeout(handle as ReturnType<typeof setTimeout>);
+  },
+};
+
+/**
+ * Converts a Date or timestamp into milliseconds since the epoch.
+ */
+export function toTimestamp(time: Date | number): number {
+  return typeof time === "number" ? time : time.getTime();
+}
+
+/**
+ * A callback waiting on a manual clock.
+ */
+type ManualTimer = {
+  handle: number;
+  at: number;
+  callback: () => void;
+};
+
+/**
+ * Creates a clock that only moves when told to, running due callbacks in order.
+ *
+ * @param start - The time the clock starts at
+ *
+ * @example
+ * const clock = createManualClock(new Date('2026-01-01T00:00:00Z'));
+ * const store = createDiscriminatedStore<AuthState, 'status'>('status', initial, {
+ *   clock,
+ *   schedule: { locked: { at: (state) => state.unlockAt, to: () => ({ status: 'idle' }) } },
+ * });
+ *
+ * clock.advance(60_000);
+ */
+export function createManualClock(start: Date | number = 0) {
+  let now = toTimestamp(start);
+  let nextHandle = 0;
+  const timers = new Map<number, ManualTimer>();
+
+  /**
+   * The earliest timer due by the given time, if any. Ties go to the first scheduled.
+   */
+  function nextDue(time: number): ManualTimer | undefined {
+    let due: ManualTimer | undefined;
+
+    for (const timer of timers.values()) {
+      if (
+        timer.at <= time &&
+        (due === undefined || timer.at < due.at)
+      ) {
+        due = timer;
+      }
+    }
+
+    return due;
+  }
+
+  function advance(milliseconds: number): void {
+    const target = now + milliseconds;
+    let due = nextDue(target);
+
+    while (due !== undefined) {
+      timers.delete(due.handle);
+      now = Math.max(now, due.at);
+      due.callback();
+      due = nextDue(target);
+    }
+
+    now = target;
+  }
+
+  return {
+    now: () => now,
+    setTimeout: (callback: () => void, delay: number): unknown => {
+      const handle = nextHandle++;
+      timers.set(handle, {
+        handle,
+        at: now + Math.max(delay, 0),
+        callback,
+      });
+      return handle;
+    },
+    clearTimeout: (handle: unknown): void => {
+      timers.delete(handle as number);
+    },
+    /**
+     * Moves the clock forward, running every callback that falls due on the way.
+     */
+    advance,
+  } as const;
+}
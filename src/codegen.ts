@@ -0,0 +1,831 @@
+import { SchemaCodegenError } from "./errors.js";
+
+export { SchemaCodegenError } from "./errors.js";
+
+/**
+ * The parts of a JSON Schema, or of an OpenAPI Schema Object, the generator reads.
+ */
+type Schema = {
+  readonly $ref?: string;
+  readonly type?: string | readonly string[];
+  readonly title?: string;
+  readonly description?: string;
+  readonly properties?: Readonly<Record<string, Schema>>;
+  readonly required?: readonly string[];
+  readonly additionalProperties?: boolean | Schema;
+  readonly items?: Schema;
+  readonly enum?: readonly unknown[];
+  readonly const?: unknown;
+  readonly nullable?: boolean;
+  readonly oneOf?: readonly Schema[];
+  readonly anyOf?: readonly Schema[];
+  readonly allOf?: readonly Schema[];
+  readonly discriminator?: {
+    readonly propertyName: string;
+    readonly mapping?: Readonly<Record<string, string>>;
+  };
+};
+
+/**
+ * Options for generateDiscriminatedContexts.
+ */
+export type CodegenOptions = {
+  /**
+   * The module createDiscriminatedContext is imported from. Defaults to this package.
+   */
+  importPath?: string;
+  /**
+   * Generate a validator per schema, and pass them to each context's `validate`
+   * option. Defaults to false.
+   */
+  validators?: boolean;
+  /**
+   * Name of the union at the document's root, for JSON Schema documents that are
+   * a `oneOf` themselves. Defaults to the root's `title`.
+   */
+  name?: string;
+  /**
+   * Name of the schema file, mentioned in the generated file's header.
+   */
+  source?: string;
+};
+
+/**
+ * A discriminated union found in the document.
+ */
+type Union = {
+  pointer: string;
+  schema: Schema;
+  discriminantKey: string;
+  members: { pointer: string; values: unknown[]; inline: boolean }[];
+};
+
+const PACKAGE_NAME = "@bender-tools/react-discriminated-union-context";
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Converts a schema name such as `pet-type` or `pet_type` into `PetType`.
+ */
+function toTypeName(name: string): string {
+  const pascal = name
+    .split(/[^A-Za-z0-9]+/)
+    .filter((word) => word !== "")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+
+  return /^[A-Za-z]/.test(pascal) ? pascal : `_${pascal}`;
+}
+
+/**
+ * Quotes a property name unless it is a valid identifier.
+ */
+function toPropertyKey(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Renders a description as a doc comment at the given indentation.
+ */
+function toDocComment(
+  description: string | undefined,
+  indent: string,
+): string {
+  if (description === undefined || description.trim() === "") {
+    return "";
+  }
+
+  const lines = description.trim().split(/\r?\n/);
+
+  return [
+    `${indent}/**`,
+    ...lines.map((line) => `${indent} * ${line}`.trimEnd()),
+    `${indent} */`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * Generates TypeScript for the discriminated unions in a JSON Schema or OpenAPI
+ * document: a type per schema, a union type and a context per `oneOf`, and
+ * optionally a validator per schema.
+ *
+ * A `oneOf` is a discriminated union when it has a `discriminator`, or when every
+ * member gives one property a `const` (or single `enum`) value. Discriminant values
+ * come from `discriminator.mapping`, from those constants, and otherwise, as in
+ * OpenAPI, from the names of the referenced schemas. Only local `$ref`s are supported.
+ *
+ * @param document - The parsed JSON Schema or OpenAPI document
+ * @param options - Optional settings: the import path, validators, the root union's name and the source file name
+ * @returns The source of a TypeScript module
+ * @throws SchemaCodegenError if the document has no discriminated union, or a schema in it can't be generated
+ *
+ * @example
+ * const source = generateDiscriminatedContexts(
+ *   JSON.parse(readFileSync('openapi.json', 'utf8')),
+ *   { validators: true, source: 'openapi.json' },
+ * );
+ */
+export function generateDiscriminatedContexts(
+  document: unknown,
+  options: CodegenOptions = {},
+): string {
+  const { importPath = PACKAGE_NAME, validators = false } = options;
+  const root = (document ?? {}) as Schema & {
+    readonly components?: {
+      readonly schemas?: Readonly<Record<string, Schema>>;
+    };
+    readonly $defs?: Readonly<Record<string, Schema>>;
+    readonly definitions?: Readonly<Record<string, Schema>>;
+  };
+
+  // Type names by the pointer of the schema they are generated from
+  const typeNames = new Map<string, string>();
+  // Record is taken by the generated code itself
+  const usedNames = new Set<string>(["Record"]);
+  // Named schemas still to generate
+  const pending: string[] = [];
+  // Discriminant values the generated type of a union member narrows to
+  const discriminants = new Map<
+    string,
+    { key: string; values: unknown[] }
+  >();
+
+  function resolve(pointer: string): Schema {
+    if (!pointer.startsWith("#")) {
+      throw new SchemaCodegenError(
+        `Only local $refs are supported, got ${pointer}`,
+        pointer,
+      );
+    }
+
+    let schema: unknown = root;
+
+    for (const segment of pointer.slice(1).split("/").slice(1)) {
+      const key = decodeURIComponent(segment)
+        .replace(/~1/g, "/")
+        .replace(/~0/g, "~");
+
+      schema =
+        typeof schema === "object" &&
+        schema !== null &&
+        Object.prototype.hasOwnProperty.call(schema, key)
+          ? (schema as Record<string, unknown>)[key]
+          : undefined;
+    }
+
+    if (typeof schema !== "object" || schema === null) {
+      throw new SchemaCodegenError(
+        `Unresolvable $ref ${pointer}`,
+        pointer,
+      );
+    }
+
+    return schema as Schema;
+  }
+
+  /**
+   * Reserves a unique type name for the schema at the pointer.
+   */
+  function nameSchema(pointer: string, name: string): string {
+    let unique = toTypeName(name);
+
+    for (let suffix = 2; usedNames.has(unique); suffix++) {
+      unique = `${toTypeName(name)}${suffix}`;
+    }
+
+    usedNames.add(unique);
+    typeNames.set(pointer, unique);
+    return unique;
+  }
+
+  /**
+   * The type name of a referenced schema, queueing the schema for generation.
+   */
+  function typeNameOf(pointer: string): string {
+    const known = typeNames.get(pointer);
+
+    if (known !== undefined) {
+      return known;
+    }
+
+    const segments = pointer.split("/");
+    resolve(pointer);
+    const name = nameSchema(
+      pointer,
+      decodeURIComponent(segments[segments.length - 1] ?? "Schema"),
+    );
+    pending.push(pointer);
+    return name;
+  }
+
+  /**
+   * Flattens allOf into a single object schema, following $refs.
+   */
+  function merge(schema: Schema): Schema {
+    if (schema.$ref !== undefined) {
+      return merge(resolve(schema.$ref));
+    }
+
+    if (schema.allOf === undefined) {
+      return schema;
+    }
+
+    const { allOf, ...own } = schema;
+    const parts = [own, ...allOf].map(merge);
+
+    return {
+      ...own,
+      type: "object",
+      properties: Object.assign(
+        {},
+        ...parts.map((part) => part.properties ?? {}),
+      ) as Record<string, Schema>,
+      required: [
+        ...new Set(parts.flatMap((part) => part.required ?? [])),
+      ],
+      additionalProperties: parts.reduce<boolean | Schema | undefined>(
+        (additional, part) => part.additionalProperties ?? additional,
+        undefined,
+      ),
+    };
+  }
+
+  /**
+   * The constant value(s) a schema gives a property, if it gives any.
+   */
+  function literalsOf(
+    schema: Schema,
+    key: string,
+  ): unknown[] | undefined {
+    const property = merge(schema).properties?.[key];
+
+    if (property === undefined) {
+      return undefined;
+    }
+
+    const resolved = merge(property);
+
+    return "const" in resolved
+      ? [resolved.const]
+      : resolved.enum?.slice();
+  }
+
+  /**
+   * Finds the union's discriminant: the discriminator's property, or else the first
+   * property every member gives a single constant value.
+   */
+  function findDiscriminantKey(
+    members: readonly Schema[],
+  ): string | undefined {
+    const [first] = members;
+
+    return Object.keys(
+      first === undefined ? {} : merge(first).properties ?? {},
+    ).find((key) =>
+      members.every((member) => literalsOf(member, key)?.length === 1),
+    );
+  }
+
+  /**
+   * Normalizes a mapping target, which may be a bare schema name, into a pointer.
+   */
+  function toMappingPointer(target: string): string {
+    return target.includes("#")
+      ? target.slice(target.indexOf("#"))
+      : `#/components/schemas/${target}`;
+  }
+
+  /**
+   * Reads a union's members and their discriminant values, or returns undefined if
+   * the schema isn't a discriminated union.
+   */
+  function toUnion(pointer: string, schema: Schema): Union | undefined {
+    const options = schema.oneOf ?? schema.anyOf;
+
+    if (options === undefined) {
+      return undefined;
+    }
+
+    const discriminantKey =
+      schema.discriminator?.propertyName ??
+      findDiscriminantKey(options);
+
+    if (discriminantKey === undefined) {
+      return undefined;
+    }
+
+    const mapping = Object.entries(
+      schema.discriminator?.mapping ?? {},
+    ).map(
+      ([value, target]) => [value, toMappingPointer(target)] as const,
+    );
+    const memberPointers = options.map(
+      (member, index) =>
+        member.$ref ??
+        `${pointer}/${schema.oneOf ? "oneOf" : "anyOf"}/${index}`,
+    );
+    const mappedOnly = mapping
+      .map(([, target]) => target)
+      .filter((target) => !memberPointers.includes(target));
+
+    const members = [...memberPointers, ...new Set(mappedOnly)].map(
+      (memberPointer, index) => {
+        const mapped = mapping
+          .filter(([, target]) => target === memberPointer)
+          .map(([value]) => value);
+        const member = resolve(memberPointer);
+        const values =
+          mapped.length > 0
+            ? mapped
+            : literalsOf(member, discriminantKey) ??
+              (memberPointer.startsWith("#/components/schemas/")
+                ? memberPointer.split("/").slice(-1)
+                : undefined);
+
+        if (values === undefined) {
+          throw new SchemaCodegenError(
+            `Can't tell the ${discriminantKey} of this member of a discriminated union`,
+            memberPointer,
+          );
+        }
+
+        return {
+          pointer: memberPointer,
+          values,
+          inline:
+            index < options.length &&
+            options[index]?.$ref === undefined,
+        };
+      },
+    );
+
+    return { pointer, schema, discriminantKey, members };
+  }
+
+  /**
+   * Renders a JSON value as a literal type, or as the expression it compares against.
+   */
+  function renderLiteral(value: unknown): string {
+    return JSON.stringify(value) ?? "undefined";
+  }
+
+  /**
+   * Renders an object type, with the discriminant narrowed for union members.
+   */
+  function renderObject(
+    schema: Schema,
+    indent: string,
+    discriminant: { key: string; values: unknown[] } | undefined,
+  ): string {
+    const properties = { ...schema.properties };
+    const required = new Set(schema.required);
+    const inner = `${indent}  `;
+
+    if (discriminant !== undefined) {
+      properties[discriminant.key] = { enum: discriminant.values };
+      required.add(discriminant.key);
+    }
+
+    const lines = Object.entries(properties).map(
+      ([key, property]) =>
+        `${toDocComment(property.description, inner)}${inner}${toPropertyKey(key)}${required.has(key) ? "" : "?"}: ${renderType(property, inner)};`,
+    );
+    const additional = schema.additionalProperties;
+
+    if (additional !== undefined && additional !== false) {
+      const value =
+        additional === true ? "unknown" : renderType(additional, inner);
+
+      if (lines.length === 0) {
+        return `Record<string, ${value}>`;
+      }
+
+      lines.push(`${inner}[key: string]: ${value};`);
+    }
+
+    return lines.length === 0
+      ? "Record<string, unknown>"
+      : `{\n${lines.join("\n")}\n${indent}}`;
+  }
+
+  /**
+   * Renders the TypeScript type for a schema; nested object types start at `indent`.
+   */
+  function renderType(schema: Schema, indent: string): string {
+    const type = renderNonNullable(schema, indent);
+
+    return schema.nullable === true ? `${type} | null` : type;
+  }
+
+  /**
+   * Renders a type ignoring OpenAPI's `nullable`, which renderType adds.
+   */
+  function renderNonNullable(schema: Schema, indent: string): string {
+    if (schema.$ref !== undefined) {
+      return typeNameOf(schema.$ref);
+    }
+
+    if ("const" in schema) {
+      return renderLiteral(schema.const);
+    }
+
+    if (schema.enum !== undefined) {
+      return schema.enum.map(renderLiteral).join(" | ");
+    }
+
+    const options = schema.oneOf ?? schema.anyOf;
+
+    if (options !== undefined) {
+      return options
+        .map((option) => renderType(option, indent))
+        .join(" | ");
+    }
+
+    if (schema.allOf !== undefined) {
+      return renderObject(merge(schema), indent, undefined);
+    }
+
+    if (Array.isArray(schema.type)) {
+      return schema.type
+        .map((type: string) => renderType({ ...schema, type }, indent))
+        .join(" | ");
+    }
+
+    switch (schema.type) {
+      case "string":
+        return "string";
+      case "number":
+      case "integer":
+        return "number";
+      case "boolean":
+        return "boolean";
+      case "null":
+        return "null";
+      case "array": {
+        const items =
+          schema.items === undefined
+            ? "unknown"
+            : renderType(schema.items, indent);
+
+        return /^[\w$."]+$/.test(items) ? `${items}[]` : `(${items})[]`;
+      }
+      case "object":
+        return renderObject(schema, indent, undefined);
+      default:
+        return schema.properties === undefined
+          ? "unknown"
+          : renderObject(schema, indent, undefined);
+    }
+  }
+
+  /**
+   * Renders a check of `expression` against a schema, or returns null if any value passes.
+   */
+  function renderCheck(
+    schema: Schema,
+    expression: string,
+  ): string | null {
+    const check = renderNonNullableCheck(schema, expression);
+
+    return schema.nullable === true && check !== null
+      ? `(${expression} === null || ${group(check)})`
+      : check;
+  }
+
+  /**
+   * Renders a check ignoring OpenAPI's `nullable`, which renderCheck adds.
+   */
+  function renderNonNullableCheck(
+    schema: Schema,
+    expression: string,
+  ): string | null {
+    if (schema.$ref !== undefined) {
+      return `is${typeNameOf(schema.$ref)}(${expression})`;
+    }
+
+    if ("const" in schema) {
+      return `${expression} === ${renderLiteral(schema.const)}`;
+    }
+
+    if (schema.enum !== undefined) {
+      const checks = schema.enum.map(
+        (value) => `${expression} === ${renderLiteral(value)}`,
+      );
+
+      return checks.length === 1
+        ? checks[0] ?? null
+        : `(${checks.join(" || ")})`;
+    }
+
+    const options = schema.oneOf ?? schema.anyOf;
+
+    if (options !== undefined) {
+      const checks = options.map((option) =>
+        renderCheck(option, expression),
+      );
+
+      return checks.includes(null)
+        ? null
+        : `(${checks.map((check) => group(check ?? "")).join(" || ")})`;
+    }
+
+    if (schema.allOf !== undefined) {
+      return renderObjectCheck(merge(schema), expression);
+    }
+
+    if (Array.isArray(schema.type)) {
+      const checks = schema.type.map((type: string) =>
+        renderCheck({ ...schema, type }, expression),
+      );
+
+      return checks.includes(null)
+        ? null
+        : `(${checks.map((check) => group(check ?? "")).join(" || ")})`;
+    }
+
+    switch (schema.type) {
+      case "string":
+      case "number":
+      case "boolean":
+        return `typeof ${expression} === "${schema.type}"`;
+      case "integer":
+        return `Number.isInteger(${expression})`;
+      case "null":
+        return `${expression} === null`;
+      case "array": {
+        const items =
+          schema.items === undefined
+            ? null
+            : renderCheck(schema.items, "item");
+
+        return items === null
+          ? `Array.isArray(${expression})`
+          : `Array.isArray(${expression}) && ${expression}.every((item) => ${items})`;
+      }
+      case "object":
+        return renderObjectCheck(schema, expression);
+      default:
+        return schema.properties === undefined
+          ? null
+          : renderObjectCheck(schema, expression);
+    }
+  }
+
+  /**
+   * Wraps a check in parentheses when it is a conjunction, for use inside a disjunction.
+   */
+  function group(check: string): string {
+    return check.includes(" && ") ? `(${check})` : check;
+  }
+
+  /**
+   * The checks an object must pass: being an object, then one per property.
+   */
+  function objectChecks(
+    schema: Schema,
+    expression: string,
+    discriminant: { key: string; values: unknown[] } | undefined,
+  ): string[] {
+    const properties = { ...schema.properties };
+    const required = new Set(schema.required);
+
+    if (discriminant !== undefined) {
+      properties[discriminant.key] = { enum: discriminant.values };
+      required.add(discriminant.key);
+    }
+
+    const checks = Object.entries(properties).flatMap(
+      ([key, property]) => {
+        const access = `${expression}[${JSON.stringify(key)}]`;
+        const check = renderCheck(property, access);
+
+        if (required.has(key)) {
+          return [check ?? `${JSON.stringify(key)} in ${expression}`];
+        }
+
+        return check === null
+          ? []
+          : [`(${access} === undefined || ${group(check)})`];
+      },
+    );
+    const additional = schema.additionalProperties;
+    const additionalCheck =
+      typeof additional === "object"
+        ? renderCheck(additional, "item")
+        : null;
+
+    if (additionalCheck !== null) {
+      checks.push(
+        `Object.values(${expression}).every((item) => ${additionalCheck})`,
+      );
+    }
+
+    return [`isRecord(${expression})`, ...checks];
+  }
+
+  /**
+   * Renders an object's checks as a single expression.
+   */
+  function renderObjectCheck(
+    schema: Schema,
+    expression: string,
+  ): string {
+    return objectChecks(schema, expression, undefined).join(" && ");
+  }
+
+  /**
+   * Renders the exported type alias for a named schema or union member.
+   */
+  function renderNamedType(pointer: string): string {
+    const schema = resolve(pointer);
+    const name = typeNameOf(pointer);
+    const discriminant = discriminants.get(pointer);
+    const merged = merge(schema);
+    const type =
+      discriminant === undefined
+        ? renderType(schema, "")
+        : renderObject(merged, "", discriminant);
+
+    return `${toDocComment(schema.description, "")}export type ${name} = ${type};`;
+  }
+
+  /**
+   * Renders the exported validator for a named schema or union member.
+   */
+  function renderNamedCheck(pointer: string): string {
+    const schema = resolve(pointer);
+    const merged = merge(schema);
+    const discriminant = discriminants.get(pointer);
+    const checks =
+      discriminant !== undefined ||
+      (merged.nullable !== true &&
+        (merged.type === "object" ||
+          (merged.type === undefined &&
+            merged.properties !== undefined)))
+        ? objectChecks(merged, "value", discriminant)
+        : [renderCheck(schema, "value") ?? "true"];
+
+    return [
+      `export function is${typeNameOf(pointer)}(value: unknown): boolean {`,
+      checks.length === 1
+        ? `  return ${checks.join("")};`
+        : `  return (\n    ${checks.join(" &&\n    ")}\n  );`,
+      `}`,
+    ].join("\n");
+  }
+
+  // Find the unions: named schemas, and the document itself for JSON Schema
+  const namedSchemas = [
+    ["#/components/schemas", root.components?.schemas],
+    ["#/$defs", root.$defs],
+    ["#/definitions", root.definitions],
+  ] as const;
+  const candidates: [string, Schema, string][] = namedSchemas.flatMap(
+    ([base, schemas]) =>
+      Object.entries(schemas ?? {}).map(
+        ([name, schema]): [string, Schema, string] => [
+          `${base}/${encodeURIComponent(name.replace(/~/g, "~0").replace(/\//g, "~1"))}`,
+          schema,
+          name,
+        ],
+      ),
+  );
+
+  if (root.oneOf !== undefined || root.anyOf !== undefined) {
+    candidates.unshift([
+      "#",
+      root,
+      options.name ?? root.title ?? "Union",
+    ]);
+  }
+
+  const unions = candidates.flatMap(([pointer, schema, name]) => {
+    const union = toUnion(pointer, schema);
+
+    if (union === undefined) {
+      return [];
+    }
+
+    nameSchema(pointer, name);
+    return [union];
+  });
+
+  if (unions.length === 0) {
+    throw new SchemaCodegenError(
+      "Found no oneOf with a discriminator, or whose members share a constant property",
+      "#",
+    );
+  }
+
+  for (const union of unions) {
+    const unionName = typeNameOf(union.pointer);
+
+    for (const member of union.members) {
+      const known = discriminants.get(member.pointer);
+
+      if (!member.inline) {
+        discriminants.set(member.pointer, {
+          key: union.discriminantKey,
+          values: [
+            ...new Set([...(known?.values ?? []), ...member.values]),
+          ],
+        });
+        continue;
+      }
+
+      // Inline members get a type of their own, named after the union and their value
+      discriminants.set(member.pointer, {
+        key: union.discriminantKey,
+        values: member.values,
+      });
+      nameSchema(
+        member.pointer,
+        `${unionName} ${member.values.map(String).join(" ")}`,
+      );
+      pending.push(member.pointer);
+    }
+  }
+
+  const types: string[] = [];
+  const checks: string[] = [];
+
+  for (const union of unions) {
+    types.push(
+      `${toDocComment(union.schema.description, "")}export type ${typeNameOf(union.pointer)} = ${union.members
+        .map((member) => typeNameOf(member.pointer))
+        .join(" | ")};`,
+    );
+
+    if (validators) {
+      checks.push(
+        [
+          `export function is${typeNameOf(union.pointer)}(value: unknown): boolean {`,
+          `  return ${union.members.map((member) => `is${typeNameOf(member.pointer)}(value)`).join(" || ")};`,
+          `}`,
+        ].join("\n"),
+      );
+    }
+  }
+
+  for (let index = 0; index < pending.length; index++) {
+    const pointer = pending[index] ?? "";
+
+    types.push(renderNamedType(pointer));
+
+    if (validators) {
+      checks.push(renderNamedCheck(pointer));
+    }
+  }
+
+  const contexts = unions.map((union) => {
+    const name = typeNameOf(union.pointer);
+    const variable = `${name.charAt(0).toLowerCase()}${name.slice(1)}Context`;
+    const key = JSON.stringify(union.discriminantKey);
+    const validate = union.members.flatMap((member) =>
+      member.values.map((value) => {
+        const caseKey = String(value);
+
+        return `      ${toPropertyKey(caseKey)}: is${typeNameOf(member.pointer)},`;
+      }),
+    );
+
+    return [
+      `export const ${variable} = createDiscriminatedContext<${name}, ${key}>(`,
+      `  ${key},`,
+      `  {`,
+      `    name: ${JSON.stringify(name)},`,
+      ...(validators ? [`    validate: {`, ...validate, `    },`] : []),
+      // A 'default' variant takes the place of useContext's sentinel
+      ...(union.members.some((member) =>
+        member.values.includes("default"),
+      )
+        ? [`    sentinel: false,`]
+        : []),
+      `  },`,
+      `);`,
+      ``,
+      `export const ${name}Context = ${variable}.Context;`,
+      `export const use${name} = ${variable}.useContext;`,
+      `export const use${name}If = ${variable}.useContextIf;`,
+    ].join("\n");
+  });
+
+  const helpers = validators
+    ? [
+        [
+          `const isRecord = (value: unknown): value is Record<string, unknown> =>`,
+          `  typeof value === "object" && value !== null && !Array.isArray(value);`,
+        ].join("\n"),
+      ]
+    : [];
+
+  return `${[
+    `// Generated from ${options.source ?? "a schema"} by discriminated-union-codegen. Do not edit.`,
+    `import { createDiscriminatedContext } from ${JSON.stringify(importPath)};`,
+    ...types,
+    ...helpers,
+    ...checks,
+    ...contexts,
+  ].join("\n\n")}\n`;
+}
@@ -0,0 +1,2138 @@
+import {
+  Component,
+  createContext,
+  createElement,
+  Fragment,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ComponentType,
+  type ReactElement,
+  type ReactNode,
+} from "react";
+import * as React from "react";
+import { isDevelopment } from "./env.js";
+import { readPath } from "./path.js";
+import {
+  DiscriminantMismatchError,
+  InvalidProviderValueError,
+  MissingProviderError,
+  type ValidationIssue,
+} from "./errors.js";
+import {
+  createDiscriminatedStore,
+  createMatcher,
+  type DiscriminatedStore,
+} from "./store.js";
+import {
+  validateVariant,
+  type VariantValidators,
+} from "./validation.js";
+
+/**
+ * Forces TypeScript to expand/resolve a type for better hover display.
+ * This makes nested mapped types show their actual structure.
+ */
+type Prettify<T> = {
+  [K in keyof T]: T[K];
+} & {};
+
+/**
+ * Recursively expands/resolves types for better hover display.
+ * Expands nested object types so you see the full structure.
+ * Distributes over unions to handle discriminated unions correctly.
+ */
+type DeepPrettify<T> = T extends (...args: infer A) => infer R
+  ? (...args: DeepPrettify<A>) => DeepPrettify<R>
+  : T extends Date
+    ? Date
+    : T extends object
+      ? { [K in keyof T]: DeepPrettify<T[K]> }
+      : T;
+
+/**
+ * Gets all keys from all members of a union type.
+ */
+type AllKeysOfUnion<T> = T extends unknown ? keyof T : never;
+
+/**
+ * Dotted paths into nested object properties, e.g. 'result.kind', up to four
+ * levels deep. Dates, arrays and functions are not descended into.
+ */
+type NestedPath<
+  T,
+  TDepth extends unknown[] = [],
+> = TDepth["length"] extends 3
+  ? never
+  : T extends unknown
+    ? {
+        [K in keyof T & string]: T[K] extends
+          | Date
+          | readonly unknown[]
+          | ((...args: never[]) => unknown)
+          ? never
+          : T[K] extends object
+            ?
+                | `${K}.${keyof T[K] & string}`
+                | `${K}.${NestedPath<T[K], [...TDepth, unknown]>}`
+            : never;
+      }[keyof T & string]
+    : never;
+
+/**
+ * The keys a discriminant can be read from: a top-level key, or a dotted path
+ * to a nested one such as 'result.kind'.
+ *
+ * @example
+ * type Response = {
+ *   meta: { requestId: string };
+ *   result: { kind: 'ok'; data: string } | { kind: 'fail'; reason: string };
+ * };
+ *
+ * type Paths = DiscriminantPath<Response>;
+ * // Result: 'meta' | 'result' | 'meta.requestId' | 'result.kind'
+ */
+export type DiscriminantPath<TUnion> =
+  | keyof TUnion
+  | NestedPath<TUnion>;
+
+/**
+ * The object(s) holding the discriminant at the end of a path. For a top-level
+ * key, that is the union itself.
+ */
+type VariantObject<TUnion, TPath> = TUnion extends unknown
+  ? TPath extends keyof TUnion
+    ? TUnion
+    : TPath extends `${infer Head}.${infer Rest}`
+      ? Head extends keyof TUnion
+        ? VariantObject<TUnion[Head], Rest>
+        : never
+      : never
+  : never;
+
+/**
+ * The last key of a discriminant path, read from the objects VariantObject gives.
+ */
+type VariantKey<TUnion, TPath> = TUnion extends unknown
+  ? TPath extends keyof TUnion
+    ? TPath
+    : TPath extends `${infer Head}.${infer Rest}`
+      ? Head extends keyof TUnion
+        ? VariantKey<TUnion[Head], Rest>
+        : never
+      : never
+  : never;
+
+/**
+ * The value(s) at a discriminant path, across all union members.
+ */
+type ValueAtPath<TUnion, TPath> = TUnion extends unknown
+  ? TPath extends keyof TUnion
+    ? TUnion[TPath]
+    : TPath extends `${infer Head}.${infer Rest}`
+      ? Head extends keyof TUnion
+        ? ValueAtPath<TUnion[Head], Rest>
+        : never
+      : never
+  : never;
+
+/**
+ * Narrows a union to the members whose value at the path matches. For nested
+ * paths, the nested union is narrowed in place and the surrounding object kept.
+ */
+type NarrowByPath<TUnion, TPath, TValue> = TUnion extends unknown
+  ? TPath extends keyof TUnion
+    ? TUnion extends { [K in TPath]: TValue }
+      ? TUnion
+      : never
+    : TPath extends `${infer Head}.${infer Rest}`
+      ? Head extends keyof TUnion
+        ? [NarrowByPath<TUnion[Head], Rest, TValue>] extends [never]
+          ? never
+          : Omit<TUnion, Head> & {
+              [K in Head]: NarrowByPath<TUnion[Head], Rest, TValue>;
+            }
+        : never
+      : never
+  : never;
+
+/**
+ * Extracts the keys (excluding the discriminant) for a specific discriminant value.
+ */
+type KeysForDiscriminantValue<TUnion, TDiscriminant, TValue> =
+  TUnion extends unknown
+    ? TDiscriminant extends keyof TUnion
+      ? TUnion[TDiscriminant] extends TValue
+        ? Exclude<keyof TUnion, TDiscriminant>
+        : never
+      : never
+    : never;
+
+/**
+ * Whether a type is made only of string, number or boolean literals.
+ */
+type IsLiteral<T> = [T] extends [string | number | boolean]
+  ? string extends T
+    ? false
+    : number extends T
+      ? false
+      : true
+  : false;
+
+/**
+ * Top-level keys whose values are literals in every union member, i.e. the keys
+ * a composite pattern can narrow on.
+ */
+type PatternKeys<TUnion> = {
+  [K in keyof TUnion]-?: IsLiteral<TUnion[K]> extends true ? K : never;
+}[keyof TUnion];
+
+/**
+ * A composite pattern: any combination of the union's literal keys, each with
+ * the value to narrow to.
+ *
+ * @example
+ * type Session =
+ *   | { status: 'idle'; role: 'guest' }
+ *   | { status: 'authenticated'; role: 'admin'; auditLog: string[] }
+ *   | { status: 'authenticated'; role: 'member' };
+ *
+ * const pattern: DiscriminantPattern<Session> = { status: 'authenticated', role: 'admin' };
+ */
+export type DiscriminantPattern<TUnion> = {
+  [K in PatternKeys<TUnion>]?: ValueAtPath<TUnion, K>;
+};
+
+/**
+ * Narrows a union to the members matching every key of a pattern. Members whose
+ * key allows several values keep only the pattern's value.
+ */
+type NarrowByPattern<TUnion, TPattern> = TUnion extends unknown
+  ? {
+      [K in keyof TPattern]: K extends keyof TUnion
+        ? [Extract<TUnion[K], TPattern[K]>] extends [never]
+          ? false
+          : true
+        : false;
+    }[keyof TPattern] extends true
+    ? Omit<TUnion, keyof TPattern> & {
+        [K in keyof TPattern & keyof TUnion]: Extract<
+          TUnion[K],
+          TPattern[K]
+        >;
+      }
+    : never
+  : never;
+
+/**
+ * A pattern type that also rejects keys outside of the union's pattern keys,
+ * which an inferred pattern type would otherwise accept.
+ */
+export type ExactPattern<TUnion, TPattern> = TPattern & {
+  [K in Exclude<keyof TPattern, PatternKeys<TUnion>>]: never;
+};
+
+/**
+ * Constraint for inferred patterns. Object literals have no numeric index,
+ * so this keeps arrays and strings out of the pattern overloads.
+ */
+export type PatternConstraint<TUnion> = DiscriminantPattern<TUnion> & {
+  readonly [index: number]: never;
+};
+
+/**
+ * Creates a return type for a context narrowed by a composite pattern.
+ */
+export type PatternReturnType<TUnion, TPattern> = DeepPrettify<
+  NarrowByPattern<TUnion, TPattern>
+>;
+
+/**
+ * Maps each discriminant value to its available keys (excluding the discriminant itself).
+ * For nested paths, the keys are those of the object holding the discriminant.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'loading' }
+ *   | { status: 'authenticated'; user: User }
+ *   | { status: 'error'; error: string };
+ *
+ * type KeyMap = KeysByDiscriminantValue<AuthState, 'status'>;
+ * // Result: {
+ * //   idle: never;
+ * //   loading: never;
+ * //   authenticated: "user";
+ * //   error: "error";
+ * // }
+ */
+export type KeysByDiscriminantValue<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = Prettify<{
+  [V in DiscriminantValues<TUnion, TDiscriminant> &
+    (string | number | symbol)]: KeysForDiscriminantValue<
+    VariantObject<TUnion, TDiscriminant>,
+    VariantKey<TUnion, TDiscriminant>,
+    V
+  >;
+}>;
+
+/**
+ * Maps each key to the discriminant value(s) that contain it.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'loading' }
+ *   | { status: 'authenticated'; user: User }
+ *   | { status: 'error'; error: string };
+ *
+ * type DiscriminantMap = DiscriminantsByKey<AuthState, 'status'>;
+ * // Result: {
+ * //   user: "authenticated";
+ * //   error: "error";
+ * // }
+ */
+export type DiscriminantsByKey<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = Prettify<{
+  [K in Exclude<
+    AllKeysOfUnion<VariantObject<TUnion, TDiscriminant>>,
+    VariantKey<TUnion, TDiscriminant>
+  >]: DiscriminantForKey<
+    VariantObject<TUnion, TDiscriminant>,
+    VariantKey<TUnion, TDiscriminant>,
+    K
+  >;
+}>;
+
+/**
+ * Extracts all keys available for a specific discriminant value.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'authenticated'; user: User };
+ *
+ * type AuthKeys = KeysForValue<AuthState, 'status', 'authenticated'>;
+ * // Result: "status" | "user"
+ */
+export type KeysForValue<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+  TValue extends DiscriminantValues<TUnion, TDiscriminant>,
+> = keyof NarrowByPath<
+  VariantObject<TUnion, TDiscriminant>,
+  VariantKey<TUnion, TDiscriminant>,
+  TValue
+>;
+
+/**
+ * Gets the discriminant value(s) required to access a specific key.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'authenticated'; user: User };
+ *
+ * type UserDiscriminant = DiscriminantForKeyAccess<AuthState, 'status', 'user'>;
+ * // Result: "authenticated"
+ */
+export type DiscriminantForKeyAccess<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+  TKey extends AllKeysOfUnion<VariantObject<TUnion, TDiscriminant>>,
+> = DiscriminantForKey<
+  VariantObject<TUnion, TDiscriminant>,
+  VariantKey<TUnion, TDiscriminant>,
+  TKey
+>;
+
+/**
+ * Gets the discriminant value(s) for union members that contain a specific key.
+ */
+type DiscriminantForKey<
+  TUnion,
+  TDiscriminant,
+  TKey extends PropertyKey,
+> = TUnion extends unknown
+  ? TKey extends keyof TUnion
+    ? TDiscriminant extends keyof TUnion
+      ? TUnion[TDiscriminant]
+      : never
+    : never
+  : never;
+
+/**
+ * Extracts the type of a property from union members that contain it.
+ * Returns never for union members that don't have the property.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'error'; error: string };
+ *
+ * type ErrorType = PropertyTypeFromUnion<AuthState, 'error'>;
+ * // Result: string (from the error state)
+ */
+type PropertyTypeFromUnion<
+  TUnion,
+  K extends PropertyKey,
+> = TUnion extends unknown
+  ? K extends keyof TUnion
+    ? TUnion[K]
+    : never
+  : never;
+
+/**
+ * Creates a return type for narrowed context.
+ * Returns only the exact narrowed type without hint properties,
+ * so IDE autocomplete shows only the properties that actually exist.
+ */
+export type NarrowedReturnType<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+  TValue extends DiscriminantValues<TUnion, TDiscriminant>,
+> = DeepPrettify<NarrowByPath<TUnion, TDiscriminant, TValue>>;
+
+/**
+ * Creates a type for the 'default' return value that includes all properties
+ * from all union members, with properties not common to all members marked as optional.
+ */
+type DefaultReturnType<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = DeepPrettify<
+  TUnion & {
+    [K in Exclude<
+      AllKeysOfUnion<TUnion>,
+      keyof TUnion
+    >]?: PropertyTypeFromUnion<TUnion, K>;
+  }
+>;
+
+/**
+ * Converts a discriminant value into the property key used for it in case maps
+ * (Match cases, machine transition maps).
+ * Boolean discriminants are keyed by their string form ("true" / "false").
+ */
+export type CaseKey<TValue> = TValue extends string | number
+  ? TValue
+  : TValue extends boolean
+    ? `${TValue}`
+    : never;
+
+/**
+ * Maps every discriminant value to a render function receiving the narrowed variant.
+ */
+type MatchCases<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = {
+  [V in DiscriminantValues<TUnion, TDiscriminant> as CaseKey<V>]: (
+    value: NarrowedReturnType<TUnion, TDiscriminant, V>,
+  ) => ReactNode;
+};
+
+/**
+ * The `scope` prop of Match and DiscriminantBoundary, unless a discriminant value
+ * already takes the name.
+ */
+type ScopeProp<TCases> = "scope" extends keyof TCases
+  ? unknown
+  : {
+      /**
+       * Reads the nearest Provider given this scope, instead of the nearest Provider.
+       */
+      scope?: string;
+    };
+
+/**
+ * Props for the Match component. Without an `otherwise` branch every discriminant
+ * value must be handled; with one, any subset of cases may be given.
+ */
+type MatchProps<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = (
+  | (MatchCases<TUnion, TDiscriminant> & { otherwise?: never })
+  | (Partial<MatchCases<TUnion, TDiscriminant>> & {
+      otherwise: (value: DefaultReturnType<TUnion, TDiscriminant>) => ReactNode;
+    })
+) &
+  ScopeProp<MatchCases<TUnion, TDiscriminant>>;
+
+/**
+ * Props for the DiscriminantBoundary component.
+ */
+type DiscriminantBoundaryProps<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = Partial<MatchCases<TUnion, TDiscriminant>> & {
+  children?: ReactNode;
+  /**
+   * Renders for caught mismatches whose current variant has no fallback of its own.
+   */
+  otherwise?: (
+    value: DefaultReturnType<TUnion, TDiscriminant>,
+    error: DiscriminantMismatchError,
+  ) => ReactNode;
+} & ScopeProp<MatchCases<TUnion, TDiscriminant>>;
+
+/**
+ * Props for the StoreProvider component: either a value, kept in a store the
+ * Provider owns, or a store created with createDiscriminatedStore.
+ */
+type StoreProviderProps<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+> = {
+  children?: ReactNode;
+  /**
+   * Makes the value readable by name below this Provider, with `{ scope }`.
+   */
+  scope?: string;
+} & (
+  | { value: TUnion; store?: never }
+  | { store: DiscriminatedStore<TUnion, TDiscriminant>; value?: never }
+);
+
+// Marks a useSelector snapshot whose value didn't match the expected discriminant
+const MISMATCH: unique symbol = Symbol("mismatch");
+
+// How long a suspended consumer waits before its promise rejects and it retries
+const SUSPEND_TIMEOUT = 30_000;
+
+/**
+ * The owner stack of the component being rendered, as a suffix for warnings.
+ * React exposes it from version 19, in development. React 18 has no public API
+ * for it; there, React DevTools appends the component stack to the warning.
+ */
+function ownerStack(): string {
+  const { captureOwnerStack } = React as {
+    captureOwnerStack?: () => string | null;
+  };
+  const stack = captureOwnerStack?.();
+
+  return stack ? `\n${stack}` : "";
+}
+
+// useLayoutEffect warns when rendered on the server, where effects never run anyway
+export const useIsomorphicLayoutEffect =
+  typeof document !== "undefined" ? useLayoutEffect : useEffect;
+
+/**
+ * Extracts all possible values of a discriminant key from a union type.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'loading' }
+ *   | { status: 'authenticated'; user: User };
+ *
+ * type StatusValues = DiscriminantValues<AuthState, 'status'>;
+ * // Result: 'idle' | 'loading' | 'authenticated'
+ */
+export type DiscriminantValues<
+  TUnion,
+  TKey extends DiscriminantPath<TUnion>,
+> = ValueAtPath<TUnion, TKey>;
+
+/**
+ * Full introspection type containing all key/discriminant mappings.
+ * Useful for debugging and understanding the union structure.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'authenticated'; user: User }
+ *   | { status: 'error'; error: string };
+ *
+ * type Info = UnionIntrospection<AuthState, 'status'>;
+ * // Hover over Info to see:
+ * // {
+ * //   discriminant: "status";
+ * //   values: "idle" | "authenticated" | "error";
+ * //   keysByValue: { idle: never; authenticated: "user"; error: "error" };
+ * //   valuesByKey: { user: "authenticated"; error: "error" };
+ * //   discriminants: { status: "idle" | "authenticated" | "error" };
+ * // }
+ *
+ * `discriminants` lists every key a composite pattern can narrow on, with its values.
+ */
+export type UnionIntrospection<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = Prettify<{
+  discriminant: TDiscriminant;
+  values: DiscriminantValues<TUnion, TDiscriminant>;
+  keysByValue: KeysByDiscriminantValue<TUnion, TDiscriminant>;
+  valuesByKey: DiscriminantsByKey<TUnion, TDiscriminant>;
+  discriminants: Required<DiscriminantPattern<TUnion>>;
+}>;
+
+/**
+ * What a narrowing hook does when the current discriminant isn't one of the expected values.
+ *
+ * - `'throw'`: throw a DiscriminantMismatchError (the default)
+ * - `'suspend'`: suspend until the StoreProvider value reaches an expected variant,
+ *   rendering the nearest Suspense fallback meanwhile
+ * - `{ fallback }`: log the mismatch in development, then render `fallback` in place
+ *   of the children of the nearest DiscriminantBoundary, unless it has a fallback
+ *   of its own for the current variant, until the value reaches an expected variant.
+ *   Needs no store; without a DiscriminantBoundary the error propagates as with `'throw'`.
+ * - `'warn'`: shorthand for `{ fallback: null }`
+ * - a function: called with the mismatch error; returns the behavior to apply
+ *   (`'throw'` when it returns nothing)
+ */
+export type MismatchPolicy =
+  | MismatchBehavior
+  | ((error: DiscriminantMismatchError) => MismatchBehavior | void);
+
+/**
+ * The behaviors a mismatch policy can choose from.
+ */
+type MismatchBehavior =
+  | "throw"
+  | "suspend"
+  | "warn"
+  | {
+      fallback:
+        | ReactNode
+        | ((error: DiscriminantMismatchError) => ReactNode);
+    };
+
+/**
+ * Per-call options for narrowing hooks.
+ */
+export type NarrowOptions<TValue = unknown> = {
+  /**
+   * Overrides the context's mismatch policy for this call.
+   */
+  onMismatch?: MismatchPolicy;
+  /**
+   * Shorthand for `onMismatch: 'suspend'`: suspend until the expected variant is reached.
+   */
+  suspend?: boolean;
+  /**
+   * Failure variant(s). When the value is in one of them, the mismatch error is thrown
+   * to the nearest error boundary, even while suspending.
+   */
+  rejectOn?: TValue | readonly TValue[];
+  /**
+   * Reads the nearest Provider given this scope, instead of the nearest Provider.
+   */
+  scope?: string;
+};
+
+/**
+ * Per-call options for useSelector: those of the narrowing hooks, plus how
+ * selected slices are compared.
+ */
+export type SelectorOptions<
+  TSelected,
+  TValue = unknown,
+> = NarrowOptions<TValue> & {
+  /**
+   * Compares the previous and next slice. Defaults to Object.is.
+   */
+  isEqual?: (a: TSelected, b: TSelected) => boolean;
+};
+
+/**
+ * Options for withVariant.
+ */
+export type WithVariantOptions<
+  TProp extends string = "value",
+  TValue = unknown,
+> = {
+  /**
+   * The prop the narrowed value is passed as. Defaults to 'value'.
+   */
+  prop?: TProp;
+  /**
+   * Renders instead of the component when the variant doesn't match, receiving
+   * the current value. Nothing is rendered without it.
+   */
+  fallback?: (value: TValue) => ReactNode;
+  /**
+   * Reads the nearest Provider given this scope, instead of the nearest Provider.
+   */
+  scope?: string;
+};
+
+/**
+ * Options for createDiscriminatedContext.
+ */
+export type DiscriminatedContextOptions<
+  TUnion = never,
+  TDiscriminant extends DiscriminantPath<TUnion> & string = never,
+> = {
+  /**
+   * Name used as the Context's displayName and included in thrown errors.
+   */
+  name?: string;
+  /**
+   * What narrowing hooks do on a discriminant mismatch. Defaults to 'throw'.
+   */
+  onMismatch?: MismatchPolicy;
+  /**
+   * A Standard Schema or predicate per discriminant value, checked in development
+   * against every new Provider value. Unavailable without type arguments, so the
+   * bare options type stays assignable to any context's options.
+   */
+  validate?: [TDiscriminant] extends [never]
+    ? never
+    : VariantValidators<TUnion, TDiscriminant>;
+  /**
+   * Every discriminant value the union declares. When given, the Provider checks in
+   * development that its value is in one of them. Unavailable without type
+   * arguments, like `validate`.
+   */
+  values?: [TDiscriminant] extends [never]
+    ? never
+    : readonly DiscriminantValues<TUnion, TDiscriminant>[];
+  /**
+   * Whether useContext('default') and useSelector('default', ...) read the whole
+   * union, as they do by default, or treat 'default' as an ordinary discriminant
+   * value. Must be false for unions with a 'default' variant, which read the whole
+   * union with useUnion instead. Unavailable without type arguments, like `validate`.
+   */
+  sentinel?: [TDiscriminant] extends [never]
+    ? never
+    : HasSentinelVariant<TUnion, TDiscriminant> extends true
+      ? false
+      : true;
+};
+
+/**
+ * Whether the union has a variant whose discriminant value is 'default', the
+ * sentinel useContext reserves for reading the whole union.
+ */
+type HasSentinelVariant<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> =
+  "default" extends DiscriminantValues<TUnion, TDiscriminant>
+    ? true
+    : false;
+
+/**
+ * The options argument of createDiscriminatedContext. It is required for unions
+ * with a 'default' variant, which must pass `sentinel: false`, so that
+ * useContext('default') narrows to that variant instead of silently returning
+ * the whole union.
+ */
+export type DiscriminatedContextArgs<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+> =
+  HasSentinelVariant<TUnion, TDiscriminant> extends true
+    ? [
+        options: DiscriminatedContextOptions<TUnion, TDiscriminant> & {
+          sentinel: false;
+        },
+      ]
+    : [options?: DiscriminatedContextOptions<TUnion, TDiscriminant>];
+
+/**
+ * Creates a type-safe React context for discriminated union types.
+ *
+ * This function creates a context and a custom hook that supports automatic
+ * type narrowing based on the discriminant value.
+ *
+ * @param discriminantKey - The key used as the discriminant in the union type, or a dotted
+ *                          path to a nested key such as `'result.kind'`
+ * @param options - Optional settings, such as a name for devtools and error messages.
+ *                  Required for unions with a 'default' variant, which must pass `sentinel: false`
+ * @returns An object containing the Context, a useContext hook, a non-throwing useContextIf hook,
+ *          a useUnion hook, a Match component, and a StoreProvider with its useSelector hook
+ * @throws MissingProviderError if useContext is called outside of a Provider
+ * @throws InvalidProviderValueError in development if a Provider value fails `options.validate`
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'loading' }
+ *   | { status: 'authenticated'; user: { name: string } }
+ *   | { status: 'error'; error: string };
+ *
+ * const { Context, useContext } = createDiscriminatedContext<AuthState, 'status'>(
+ *   'status'
+ * );
+ *
+ * // In a component:
+ * const auth = useContext('authenticated');
+ * // auth is typed as: { status: 'authenticated'; user: { name: string } }
+ */
+export function createDiscriminatedContext<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+>(
+  discriminantKey: TDiscriminant,
+  ...[options = {}]: DiscriminatedContextArgs<TUnion, TDiscriminant>
+) {
+  const {
+    name: contextName,
+    onMismatch: defaultPolicy = "throw",
+    validate: validators,
+    values: declaredValues,
+    sentinel = true,
+  } = options;
+
+  const Ctx = createContext<TUnion | null>(null);
+  const StoreCtx = createContext<DiscriminatedStore<
+    TUnion,
+    TDiscriminant
+  > | null>(null);
+  // The value the nearest StoreProvider rendered with. Its store only catches up in
+  // a layout effect, and a Context.Provider nested inside it can supply another value.
+  const StoreValueCtx = createContext<TUnion | null>(null);
+
+  // The values of enclosing Providers that were given a scope, by scope
+  const ScopesCtx = createContext<
+    Readonly<Record<string, ProvidedValue>>
+  >({});
+  // Their stores alone, so that useSelector consumers, which subscribe to the
+  // store, don't re-render on every change of a scoped value
+  const ScopeStoresCtx = createContext<
+    Readonly<
+      Record<string, DiscriminatedStore<TUnion, TDiscriminant> | null>
+    >
+  >({});
+
+  if (contextName !== undefined) {
+    Ctx.displayName = contextName;
+    StoreCtx.displayName = `${contextName}Store`;
+    StoreValueCtx.displayName = `${contextName}StoreValue`;
+    ScopesCtx.displayName = `${contextName}Scopes`;
+    ScopeStoresCtx.displayName = `${contextName}ScopeStores`;
+  }
+
+  // A Provider's value, with its store when provided through StoreProvider
+  type ProvidedValue = {
+    value: TUnion;
+    store: DiscriminatedStore<TUnion, TDiscriminant> | null;
+  };
+
+  // Use the helper type for clearer parameter typing
+  type ValidValues = DiscriminantValues<TUnion, TDiscriminant>;
+
+  const matcher = createMatcher(discriminantKey, contextName);
+  const { readDiscriminant, toAcceptedValues } = matcher;
+
+  // Special value to get the full union without narrowing, unless the union has a
+  // variant of that name
+  const DEFAULT_VALUE = "default" as const;
+  type DefaultValue =
+    HasSentinelVariant<TUnion, TDiscriminant> extends true
+      ? never
+      : typeof DEFAULT_VALUE;
+
+  /**
+   * Whether a narrowing call asked for the whole union.
+   */
+  function isSentinel(expected: unknown): expected is DefaultValue {
+    return sentinel && expected === DEFAULT_VALUE;
+  }
+
+  // What narrowing calls accept: one value, several values, or a composite pattern
+  type ExpectedValues =
+    | ValidValues
+    | readonly ValidValues[]
+    | DiscriminantPattern<TUnion>;
+
+  // Validation results per Provider value, so each value is checked once
+  const validatedValues = new WeakMap<
+    object,
+    InvalidProviderValueError | null
+  >();
+
+  /**
+   * Checks a Provider value against its variant's validator in development.
+   * Synchronous failures throw from the Provider; asynchronous ones are logged
+   * once they settle.
+   */
+  function assertValidValue(value: TUnion): void {
+    if (
+      validators === undefined ||
+      !isDevelopment() ||
+      typeof value !== "object" ||
+      value === null
+    ) {
+      return;
+    }
+
+    if (!validatedValues.has(value)) {
+      const toError = (issues: readonly ValidationIssue[]) =>
+        issues.length === 0
+          ? null
+          : new InvalidProviderValueError({
+              discriminantKey,
+              variant: readDiscriminant(value),
+              issues,
+              contextName,
+            });
+      const issues = validateVariant(
+        value,
+        discriminantKey,
+        validators,
+      );
+
+      if (issues instanceof Promise) {
+        validatedValues.set(value, null);
+        void issues
+          .then(toError, (reason: unknown) =>
+            toError([
+              { message: `Schema rejected with ${String(reason)}`, path: [] },
+            ]),
+          )
+          .then((error) => {
+            if (error !== null) {
+              console.error(error);
+            }
+          });
+      } else {
+        validatedValues.set(value, toError(issues));
+      }
+    }
+
+    const error = validatedValues.get(value);
+
+    if (error != null) {
+      throw error;
+    }
+  }
+
+  // Provider values whose discriminant has been checked, so each is checked once
+  const checkedDiscriminants = new WeakSet<object>();
+
+  /**
+   * Checks in development that a Provider value has a discriminant, in one of the
+   * declared values if any were given, and warns about discriminants that can't
+   * be narrowed on reliably. Throws from the Provider, so that React reports its
+   * position in the component stack.
+   */
+  function assertDiscriminant(value: TUnion): void {
+    if (!isDevelopment()) {
+      return;
+    }
+
+    if (typeof value !== "object" || value === null) {
+      throw new InvalidProviderValueError({
+        discriminantKey,
+        variant: undefined,
+        issues: [
+          { message: "Provider value must be an object", path: [] },
+        ],
+        contextName,
+      });
+    }
+
+    if (checkedDiscriminants.has(value)) {
+      return;
+    }
+
+    const variant = readDiscriminant(value);
+    const path = discriminantKey.split(".");
+    const format = (discriminant: unknown) =>
+      typeof discriminant === "string"
+        ? JSON.stringify(discriminant)
+        : String(discriminant);
+    const issue =
+      variant === undefined
+        ? { message: "Missing discriminant", path }
+        : declaredValues !== undefined &&
+            !(declaredValues as readonly unknown[]).includes(variant)
+          ? {
+              message: `Unknown variant ${format(variant)}, expected one of ${declaredValues.map(format).join(", ")}`,
+              path,
+            }
+          : null;
+
+    if (issue !== null) {
+      throw new InvalidProviderValueError({
+        discriminantKey,
+        variant,
+        issues: [issue],
+        contextName,
+      });
+    }
+
+    const problem =
+      typeof variant === "symbol"
+        ? "is a symbol, which can't key Match cases or be serialized"
+        : Number.isNaN(variant)
+          ? "is NaN, which never equals an expected value"
+          : typeof variant === "object" || typeof variant === "function"
+            ? "is an object, which only matches itself by reference"
+            : null;
+
+    if (problem !== null) {
+      console.warn(
+        `${contextName === undefined ? "" : `[${contextName}] `}The discriminant ${discriminantKey} ${problem}.${ownerStack()}`,
+      );
+    }
+
+    checkedDiscriminants.add(value);
+  }
+
+  /**
+   * Reads the raw value and store of the nearest Provider, or of the nearest one
+   * given `scope`, throwing if there is none.
+   */
+  function useProvided(scope?: string): ProvidedValue {
+    const contextValue = useContext(Ctx);
+    const store = useContext(StoreCtx);
+    const storeValue = useContext(StoreValueCtx);
+    const scopes = useContext(ScopesCtx);
+
+    if (scope !== undefined) {
+      const scoped = Object.prototype.hasOwnProperty.call(scopes, scope)
+        ? scopes[scope]
+        : undefined;
+
+      if (scoped === undefined) {
+        throw new MissingProviderError(
+          `useContext must be used within a Provider with scope "${scope}". Pass scope="${scope}" to the Provider to read.`,
+          { discriminantKey, contextName },
+        );
+      }
+
+      return scoped;
+    }
+
+    if (contextValue === null) {
+      throw new MissingProviderError(
+        "useContext must be used within a Provider. Wrap your component tree with <Context.Provider>.",
+        { discriminantKey, contextName },
+      );
+    }
+
+    // A store that didn't supply the value would never settle a suspension
+    return {
+      value: contextValue,
+      store: storeValue === contextValue ? store : null,
+    };
+  }
+
+  /**
+   * Reads the raw Provider value, throwing if no Provider is present.
+   */
+  function useProvidedValue(scope?: string): TUnion {
+    return useProvided(scope).value;
+  }
+
+  /**
+   * Whether the value matches the expected value(s) or pattern.
+   * 'default' accepts any value.
+   */
+  function matches(
+    value: TUnion,
+    expected: ExpectedValues | DefaultValue,
+  ): boolean {
+    return isSentinel(expected) || matcher.matches(value, expected);
+  }
+
+  // Pending suspensions, shared by every consumer waiting on the same store and values
+  const pendingMatches = new WeakMap<
+    DiscriminatedStore<TUnion, TDiscriminant>,
+    Map<string, Promise<void>>
+  >();
+
+  /**
+   * Returns a promise that resolves once the store holds a value matching the
+   * expected value(s) or pattern, or one in a failure variant. It rejects with
+   * `error` after SUSPEND_TIMEOUT, so a consumer that unmounted while suspended
+   * doesn't keep its subscription; one still mounted retries and waits again.
+   */
+  function waitForMatch(
+    store: DiscriminatedStore<TUnion, TDiscriminant>,
+    expected: ExpectedValues,
+    rejectOn: readonly unknown[],
+    error: DiscriminantMismatchError,
+  ): Promise<void> {
+    const isSettled = () =>
+      matches(store.get(), expected) ||
+      rejectOn.includes(readDiscriminant(store.get()));
+
+    if (isSettled()) {
+      return Promise.resolve();
+    }
+
+    const accepted = matcher.isPattern(expected)
+      ? Object.entries(expected).map(
+          ([key, value]) => `${key}=${String(value)}`,
+        )
+      : toAcceptedValues(expected).map(String);
+    const key = `${accepted.join("|")}!${rejectOn.map(String).join("|")}`;
+    let pending = pendingMatches.get(store);
+
+    if (pending === undefined) {
+      pending = new Map();
+      pendingMatches.set(store, pending);
+    }
+
+    const existing = pending.get(key);
+
+    if (existing !== undefined) {
+      return existing;
+    }
+
+    const byKey = pending;
+    const promise = new Promise<void>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        byKey.delete(key);
+      };
+      const unsubscribe = store.subscribe(() => {
+        if (isSettled()) {
+          settle();
+          resolve();
+        }
+      });
+      const timer = setTimeout(() => {
+        settle();
+        reject(error);
+      }, SUSPEND_TIMEOUT);
+
+      // Don't keep a Node process, such as a test run, alive just to time out
+      (timer as { unref?: () => void }).unref?.();
+    });
+
+    byKey.set(key, promise);
+    return promise;
+  }
+
+  // Mismatch errors thrown by this context, so its boundary can ignore other contexts'
+  const thrownMismatches = new WeakSet<DiscriminantMismatchError>();
+
+  // What to render for mismatch errors thrown under a fallback policy
+  const policyFallbacks = new WeakMap<DiscriminantMismatchError, ReactNode>();
+
+  /**
+   * Applies the mismatch policy for a value that didn't match, by throwing either
+   * a DiscriminantMismatchError, possibly with a fallback for the nearest
+   * DiscriminantBoundary to render, or a promise for Suspense. Values in a failure
+   * variant always throw the error.
+   */
+  function handleMismatch(
+    value: TUnion,
+    expected: ExpectedValues,
+    store: DiscriminatedStore<TUnion, TDiscriminant> | null,
+    policy: MismatchPolicy,
+    rejectOn: readonly unknown[] = [],
+  ): never {
+    // Only called for values that didn't match, so there is always an error
+    const error = matcher.toMismatchError(
+      value,
+      expected,
+    ) as DiscriminantMismatchError;
+    thrownMismatches.add(error);
+
+    if (rejectOn.includes(readDiscriminant(value))) {
+      throw error;
+    }
+
+    const behavior =
+      typeof policy === "function" ? policy(error) ?? "throw" : policy;
+
+    if (behavior === "throw") {
+      throw error;
+    }
+
+    if (behavior === "warn" || typeof behavior === "object") {
+      if (isDevelopment()) {
+        console.warn(error.message);
+      }
+
+      const fallback = behavior === "warn" ? null : behavior.fallback;
+      policyFallbacks.set(
+        error,
+        typeof fallback === "function" ? fallback(error) : fallback,
+      );
+      throw error;
+    }
+
+    if (store === null) {
+      throw new MissingProviderError(
+        "Suspending on a discriminant mismatch requires a StoreProvider. Wrap your component tree with <StoreProvider>.",
+        { discriminantKey, contextName },
+      );
+    }
+
+    // Also wake up on failure variants, so the retried render can throw
+    throw waitForMatch(store, expected, rejectOn, error);
+  }
+
+  /**
+   * Hook to consume the discriminated context with type narrowing.
+   *
+   * @param expected - The discriminant value to narrow the type. Must be one of the valid
+   *                   discriminant values from the union type (e.g., 'idle' | 'loading' | 'error'),
+   *                   an array of such values to narrow to several variants at once,
+   *                   a pattern object to narrow on several keys at once,
+   *                   or 'default' to get the full union type without narrowing
+   *                   (see useUnion for unions with a 'default' variant).
+   * @param options - Per-call options: a mismatch policy overriding the context's,
+   *                  `suspend: true` to suspend until the expected variant is reached,
+   *                  `rejectOn` failure variants that throw instead of suspending, and a
+   *                  `scope` to read a particular ancestor Provider.
+   * @returns The context value, narrowed to the union member(s) matching the expected value(s),
+   *          or the full union type if 'default' is passed.
+   * @throws DiscriminantMismatchError if the actual discriminant doesn't match the expected
+   *         value(s) (unless 'default'), under the default 'throw' policy or in a `rejectOn` variant
+   *
+   * @example
+   * // For a union with status: 'idle' | 'loading' | 'authenticated' | 'error'
+   * const auth = useContext('authenticated');
+   * // auth is narrowed to: { status: 'authenticated'; user: { name: string } }
+   *
+   * // To narrow to several variants at once:
+   * const auth = useContext(['loading', 'error']);
+   * // auth is: { status: 'loading' } | { status: 'error'; error: string }
+   *
+   * // To narrow on several keys at once:
+   * const auth = useContext({ status: 'authenticated', role: 'admin' });
+   *
+   * // To suspend until authenticated, failing into the error boundary on 'error':
+   * const auth = useContext('authenticated', { suspend: true, rejectOn: 'error' });
+   *
+   * // To read the Provider given scope="root", past any nearer ones:
+   * const realUser = useContext('authenticated', { scope: 'root' });
+   *
+   * // To get the full union type without narrowing:
+   * const auth = useContext('default');
+   * // auth is the full union: AuthState
+   */
+  function useDiscriminatedContext(
+    expected: DefaultValue,
+    options?: Pick<NarrowOptions, "scope">,
+  ): DefaultReturnType<TUnion, TDiscriminant>;
+  function useDiscriminatedContext<TValue extends ValidValues>(
+    expected: TValue,
+    options?: NarrowOptions<ValidValues>,
+  ): NarrowedReturnType<TUnion, TDiscriminant, TValue>;
+  function useDiscriminatedContext<TValue extends ValidValues>(
+    expected: readonly TValue[],
+    options?: NarrowOptions<ValidValues>,
+  ): NarrowedReturnType<TUnion, TDiscriminant, TValue>;
+  function useDiscriminatedContext<
+    const TPattern extends PatternConstraint<TUnion>,
+  >(
+    expected: ExactPattern<TUnion, TPattern>,
+    options?: NarrowOptions<ValidValues>,
+  ): PatternReturnType<TUnion, TPattern>;
+  function useDiscriminatedContext(
+    expected: ExpectedValues | DefaultValue,
+    options: NarrowOptions<ValidValues> = {},
+  ):
+    | DefaultReturnType<TUnion, TDiscriminant>
+    | NarrowedReturnType<TUnion, TDiscriminant, ValidValues>
+    | PatternReturnType<TUnion, DiscriminantPattern<TUnion>> {
+    const { value, store } = useProvided(options.scope);
+
+    if (!isSentinel(expected) && !matches(value, expected)) {
+      handleMismatch(
+        value,
+        expected,
+        store,
+        options.suspend
+          ? "suspend"
+          : options.onMismatch ?? defaultPolicy,
+        options.rejectOn === undefined
+          ? []
+          : toAcceptedValues(options.rejectOn),
+      );
+    }
+
+    return value as
+      | DefaultReturnType<TUnion, TDiscriminant>
+      | NarrowedReturnType<TUnion, TDiscriminant, ValidValues>;
+  }
+
+  /**
+   * Hook to consume the discriminated context only when it is in the expected variant(s).
+   * Unlike useContext, a mismatch does not throw; the hook returns null instead.
+   *
+   * @param expected - The discriminant value (or array of values, or pattern) to narrow the type to.
+   * @param options - A `scope` to read a particular ancestor Provider, as with useContext.
+   * @returns The narrowed context value, or null if the actual discriminant doesn't match.
+   * @throws MissingProviderError if used outside of a Provider, or of one with the given scope
+   *
+   * @example
+   * function UserProfile() {
+   *   const auth = useContextIf('authenticated');
+   *   if (auth === null) return null;
+   *   // auth is narrowed to: { status: 'authenticated'; user: { name: string } }
+   *   return <div>{auth.user.name}</div>;
+   * }
+   */
+  function useDiscriminatedContextIf<TValue extends ValidValues>(
+    expected: TValue | readonly TValue[],
+    options?: Pick<NarrowOptions, "scope">,
+  ): NarrowedReturnType<TUnion, TDiscriminant, TValue> | null;
+  function useDiscriminatedContextIf<
+    const TPattern extends PatternConstraint<TUnion>,
+  >(
+    expected: ExactPattern<TUnion, TPattern>,
+    options?: Pick<NarrowOptions, "scope">,
+  ): PatternReturnType<TUnion, TPattern> | null;
+  function useDiscriminatedContextIf(
+    expected: ExpectedValues,
+    options: Pick<NarrowOptions, "scope"> = {},
+  ):
+    | NarrowedReturnType<TUnion, TDiscriminant, ValidValues>
+    | PatternReturnType<TUnion, DiscriminantPattern<TUnion>>
+    | null {
+    const value = useProvidedValue(options.scope);
+
+    if (!matches(value, expected)) {
+      return null;
+    }
+
+    return value as NarrowedReturnType<
+      TUnion,
+      TDiscriminant,
+      ValidValues
+    >;
+  }
+
+  /**
+   * Hook returning the whole union without narrowing, like useContext('default'),
+   * but also for unions with a 'default' variant.
+   *
+   * @param options - A `scope` to read a particular ancestor Provider, as with useContext.
+   * @returns The context value, typed as the full union
+   * @throws MissingProviderError if used outside of a Provider, or of one with the given scope
+   *
+   * @example
+   * const auth = useUnion();
+   * if (auth.status === 'authenticated') {
+   *   return <div>{auth.user.name}</div>;
+   * }
+   */
+  function useUnion(
+    options: Pick<NarrowOptions, "scope"> = {},
+  ): DefaultReturnType<TUnion, TDiscriminant> {
+    return useProvidedValue(options.scope) as DefaultReturnType<
+      TUnion,
+      TDiscriminant
+    >;
+  }
+
+  /**
+   * Renders the case matching the current discriminant value, passing it the narrowed variant.
+   *
+   * TypeScript requires a case for every discriminant value unless an `otherwise`
+   * branch is given, which renders for any value without its own case.
+   * Given a `scope`, it matches on that ancestor Provider, as with useContext.
+   *
+   * @throws MissingProviderError if used outside of a Provider, or of one with the given scope
+   * @throws Error if no case matches and there is no `otherwise`
+   *
+   * @example
+   * <Match
+   *   idle={() => <LoginButton />}
+   *   loading={() => <Spinner />}
+   *   authenticated={(auth) => <Welcome name={auth.user.name} />}
+   *   error={(auth) => <ErrorMessage error={auth.error} />}
+   * />
+   */
+  function Match(props: MatchProps<TUnion, TDiscriminant>): ReactElement {
+    // A "scope" variant's case is a function, not a scope
+    const { scope } = props as { scope?: unknown };
+    const value = useProvidedValue(
+      typeof scope === "string" ? scope : undefined,
+    );
+    const actual = String(readDiscriminant(value));
+    const cases = props as unknown as Record<
+      string,
+      ((value: TUnion) => ReactNode) | undefined
+    >;
+
+    const render = Object.prototype.hasOwnProperty.call(cases, actual)
+      ? cases[actual]
+      : cases.otherwise;
+
+    if (render === undefined) {
+      throw new Error(
+        `No Match case for ${discriminantKey}=${actual}. Add a case or an otherwise branch.`,
+      );
+    }
+
+    return createElement(Fragment, null, render(value));
+  }
+
+  /**
+   * Adds a Provider's value to the scopes seen by its children, under `scope`.
+   * An inner Provider with the same scope shadows an outer one.
+   */
+  function ScopeProvider({
+    scope,
+    provided,
+    children,
+  }: {
+    scope: string;
+    provided: ProvidedValue;
+    children?: ReactNode;
+  }): ReactElement {
+    const scopes = useContext(ScopesCtx);
+    const stores = useContext(ScopeStoresCtx);
+    const { value, store } = provided;
+    const scoped = useMemo(
+      () => ({ ...scopes, [scope]: { value, store } }),
+      [scopes, scope, value, store],
+    );
+    const scopedStores = useMemo(
+      () => ({ ...stores, [scope]: store }),
+      [stores, scope, store],
+    );
+
+    return createElement(
+      ScopesCtx.Provider,
+      { value: scoped },
+      createElement(
+        ScopeStoresCtx.Provider,
+        { value: scopedStores },
+        children,
+      ),
+    );
+  }
+
+  /**
+   * Wraps a Provider's children to register its value under `scope`, if given.
+   */
+  function withScope(
+    scope: string | undefined,
+    provided: ProvidedValue,
+    children: ReactNode,
+  ): ReactNode {
+    return scope === undefined
+      ? children
+      : createElement(ScopeProvider, { scope, provided }, children);
+  }
+
+  /**
+   * Provides a value to the context, like Context.Provider, checking in development
+   * that it has a discriminant, in one of the declared `values` if any were given,
+   * and that it passes `validate`.
+   * Given a `scope`, descendants can also read it past nearer Providers.
+   *
+   * @throws InvalidProviderValueError in development if the discriminant is missing or
+   *         undeclared, or the value fails `validate`
+   *
+   * @example
+   * <Provider value={auth} scope="root">
+   *   <App />
+   * </Provider>
+   */
+  function Provider({
+    value,
+    scope,
+    children,
+  }: {
+    value: TUnion;
+    scope?: string;
+    children?: ReactNode;
+  }): ReactElement {
+    assertDiscriminant(value);
+    assertValidValue(value);
+
+    // Hides any outer store, which doesn't hold this value
+    return createElement(
+      Ctx.Provider,
+      { value },
+      createElement(
+        StoreCtx.Provider,
+        { value: null },
+        withScope(scope, { value, store: null }, children),
+      ),
+    );
+  }
+
+  if (contextName !== undefined) {
+    Provider.displayName = `${contextName}.Provider`;
+  }
+
+  /**
+   * Provider backed by an external store. Consumers using useContext, useContextIf
+   * or Match behave as under Context.Provider, while useSelector consumers only
+   * re-render when their selected slice or the active variant changes.
+   *
+   * Pass a `value` to keep it in a store the Provider owns, or a `store` from
+   * createDiscriminatedStore to share it with code outside of React.
+   *
+   * @example
+   * function AuthProvider({ children }: { children: React.ReactNode }) {
+   *   const [auth, setAuth] = useState<AuthState>({ status: 'idle' });
+   *   return <StoreProvider value={auth}>{children}</StoreProvider>;
+   * }
+   *
+   * // Or, with a store updated outside of React:
+   * <StoreProvider store={authStore}>{children}</StoreProvider>
+   */
+  function StoreProvider(
+    props: StoreProviderProps<TUnion, TDiscriminant>,
+  ): ReactElement {
+    return props.store === undefined
+      ? createElement(OwnStoreProvider, props)
+      : createElement(SharedStoreProvider, props);
+  }
+
+  /**
+   * StoreProvider for a `value` prop, copied into a store it owns.
+   */
+  function OwnStoreProvider({
+    value,
+    scope,
+    children,
+  }: {
+    value: TUnion;
+    scope?: string;
+    children?: ReactNode;
+  }): ReactElement {
+    const [store] = useState(() =>
+      createDiscriminatedStore<TUnion, TDiscriminant>(
+        discriminantKey,
+        value,
+        { name: contextName },
+      ),
+    );
+
+    assertDiscriminant(value);
+    assertValidValue(value);
+
+    useIsomorphicLayoutEffect(() => {
+      store.set(value);
+    }, [store, value]);
+
+    return createElement(
+      Ctx.Provider,
+      { value },
+      createElement(
+        StoreCtx.Provider,
+        { value: store },
+        createElement(
+          StoreValueCtx.Provider,
+          { value },
+          withScope(scope, { value, store }, children),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * StoreProvider for a `store` prop, re-rendering whenever the store changes.
+   */
+  function SharedStoreProvider({
+    store,
+    scope,
+    children,
+  }: {
+    store: DiscriminatedStore<TUnion, TDiscriminant>;
+    scope?: string;
+    children?: ReactNode;
+  }): ReactElement {
+    const value = useSyncExternalStore(
+      store.subscribe,
+      store.get,
+      store.get,
+    );
+
+    assertDiscriminant(value);
+    assertValidValue(value);
+
+    return createElement(
+      Ctx.Provider,
+      { value },
+      createElement(
+        StoreCtx.Provider,
+        { value: store },
+        createElement(
+          StoreValueCtx.Provider,
+          { value },
+          withScope(scope, { value, store }, children),
+        ),
+      ),
+    );
+  }
+
+  /**
+   * Reads the store of the nearest StoreProvider, or of the nearest one given
+   * `scope`, throwing if there is none.
+   */
+  function useStore(
+    scope?: string,
+  ): DiscriminatedStore<TUnion, TDiscriminant> {
+    const nearest = useContext(StoreCtx);
+    const stores = useContext(ScopeStoresCtx);
+
+    if (scope === undefined) {
+      if (nearest === null) {
+        throw new MissingProviderError(
+          "useSelector must be used within a StoreProvider. Wrap your component tree with <StoreProvider>.",
+          { discriminantKey, contextName },
+        );
+      }
+
+      return nearest;
+    }
+
+    const scoped = Object.prototype.hasOwnProperty.call(stores, scope)
+      ? stores[scope]
+      : undefined;
+
+    if (scoped == null) {
+      throw new MissingProviderError(
+        `useSelector must be used within a StoreProvider with scope "${scope}". Pass scope="${scope}" to the StoreProvider to read.`,
+        { discriminantKey, contextName },
+      );
+    }
+
+    return scoped;
+  }
+
+  /**
+   * Hook selecting a slice of the narrowed context value from a StoreProvider.
+   * The component re-renders only when the selected slice (compared with `isEqual`)
+   * or the active discriminant value changes. A Context.Provider nested inside the
+   * StoreProvider doesn't hide its store, unlike Provider, so isn't supported.
+   *
+   * @param expected - The discriminant value, array of values, or 'default', as with useContext
+   * @param selector - Derives the slice from the narrowed value
+   * @param options - `isEqual` to compare the previous and next slice (defaults to
+   *                  Object.is), and the per-call options of useContext: a mismatch
+   *                  policy, `suspend`, `rejectOn` and a `scope` to read a particular
+   *                  ancestor StoreProvider. A function in its place is taken as `isEqual`.
+   * @returns The selected slice
+   * @throws MissingProviderError if used outside of a StoreProvider, or of one with the given scope
+   * @throws DiscriminantMismatchError if the actual discriminant doesn't match the expected
+   *         value(s) (unless 'default'), under the default 'throw' policy or in a `rejectOn` variant
+   *
+   * @example
+   * const name = useSelector('authenticated', (auth) => auth.user.name);
+   * const user = useSelector('authenticated', (auth) => auth.user, {
+   *   isEqual: (a, b) => a.id === b.id,
+   *   suspend: true,
+   * });
+   */
+  function useSelector<TSelected>(
+    expected: DefaultValue,
+    selector: (value: DefaultReturnType<TUnion, TDiscriminant>) => TSelected,
+    options?:
+      | Pick<SelectorOptions<TSelected>, "isEqual" | "scope">
+      | ((a: TSelected, b: TSelected) => boolean),
+  ): TSelected;
+  function useSelector<TValue extends ValidValues, TSelected>(
+    expected: TValue | readonly TValue[],
+    selector: (
+      value: NarrowedReturnType<TUnion, TDiscriminant, TValue>,
+    ) => TSelected,
+    options?:
+      | SelectorOptions<TSelected, ValidValues>
+      | ((a: TSelected, b: TSelected) => boolean),
+  ): TSelected;
+  function useSelector<TSelected>(
+    expected: ValidValues | readonly ValidValues[] | DefaultValue,
+    selector: (value: never) => TSelected,
+    optionsOrIsEqual:
+      | SelectorOptions<TSelected, ValidValues>
+      | ((a: TSelected, b: TSelected) => boolean) = {},
+  ): TSelected {
+    const options =
+      typeof optionsOrIsEqual === "function"
+        ? { isEqual: optionsOrIsEqual }
+        : optionsOrIsEqual;
+    const { isEqual = Object.is } = options;
+    const store = useStore(options.scope);
+    // The snapshots handed to React are never mutated, so one is reused as is
+    // for as long as neither its variant nor its slice changes
+    const cache = useRef<{
+      value: TUnion;
+      select: (value: never) => TSelected;
+      snapshot: { variant: unknown; selected: TSelected | typeof MISMATCH };
+    } | null>(null);
+
+    const getSelection = () => {
+      const value = store.get();
+      const previous = cache.current;
+
+      if (previous?.value === value && previous.select === selector) {
+        return previous.snapshot;
+      }
+
+      const variant = readDiscriminant(value);
+      const selected = matches(value, expected)
+        ? selector(value as never)
+        : MISMATCH;
+      const unchanged =
+        previous !== null &&
+        Object.is(previous.snapshot.variant, variant) &&
+        (previous.snapshot.selected === MISMATCH || selected === MISMATCH
+          ? previous.snapshot.selected === selected
+          : isEqual(previous.snapshot.selected, selected));
+
+      cache.current = {
+        value,
+        select: selector,
+        snapshot: unchanged ? previous.snapshot : { variant, selected },
+      };
+      return cache.current.snapshot;
+    };
+
+    const snapshot = useSyncExternalStore(
+      store.subscribe,
+      getSelection,
+      getSelection,
+    );
+    const value = store.get();
+
+    if (snapshot.selected === MISMATCH) {
+      // Only narrowed (non-'default') calls can mismatch
+      return handleMismatch(
+        value,
+        expected as ValidValues | readonly ValidValues[],
+        store,
+        options.suspend ? "suspend" : options.onMismatch ?? defaultPolicy,
+        options.rejectOn === undefined
+          ? []
+          : toAcceptedValues(options.rejectOn),
+      );
+    }
+
+    return snapshot.selected;
+  }
+
+  /**
+   * Calls `onChange` after a render in which the discriminant changed, with the
+   * previous and current values. Not called for the value the component mounts with.
+   */
+  function useVariantChange(
+    onChange: (previous: TUnion, current: TUnion) => void,
+    scope: string | undefined,
+  ): void {
+    const value = useProvidedValue(scope);
+    const previousRef = useRef(value);
+    const onChangeRef = useRef(onChange);
+
+    useIsomorphicLayoutEffect(() => {
+      onChangeRef.current = onChange;
+    });
+
+    useEffect(() => {
+      const previous = previousRef.current;
+      previousRef.current = value;
+
+      if (
+        !Object.is(readDiscriminant(previous), readDiscriminant(value))
+      ) {
+        onChangeRef.current(previous, value);
+      }
+    }, [value]);
+  }
+
+  /**
+   * Hook calling `callback` whenever the context enters the expected variant(s)
+   * from any other variant. It is not called for the variant the component mounts in.
+   *
+   * @param expected - The discriminant value (or array of values) to watch for
+   * @param callback - Receives the new value, narrowed, and the previous value
+   * @param options - A `scope` to watch a particular ancestor Provider, as with useContext.
+   * @throws MissingProviderError if used outside of a Provider, or of one with the given scope
+   *
+   * @example
+   * useOnEnter('error', (auth) => {
+   *   toast.error(auth.error);
+   * });
+   */
+  function useOnEnter<TValue extends ValidValues>(
+    expected: TValue | readonly TValue[],
+    callback: (
+      state: NarrowedReturnType<TUnion, TDiscriminant, TValue>,
+      previous: DefaultReturnType<TUnion, TDiscriminant>,
+    ) => void,
+    options: Pick<NarrowOptions, "scope"> = {},
+  ): void {
+    useVariantChange((previous, current) => {
+      if (!matches(previous, expected) && matches(current, expected)) {
+        callback(current as never, previous as never);
+      }
+    }, options.scope);
+  }
+
+  /**
+   * Hook calling `callback` whenever the context leaves the expected variant(s)
+   * for any other variant.
+   *
+   * @param expected - The discriminant value (or array of values) to watch for
+   * @param callback - Receives the value that was left, narrowed, and the new value
+   * @param options - A `scope` to watch a particular ancestor Provider, as with useContext.
+   * @throws MissingProviderError if used outside of a Provider, or of one with the given scope
+   *
+   * @example
+   * useOnExit('locked', (previous) => {
+   *   analytics.track('unlocked', { after: Date.now() - previous.lockedAt });
+   * });
+   */
+  function useOnExit<TValue extends ValidValues>(
+    expected: TValue | readonly TValue[],
+    callback: (
+      previous: NarrowedReturnType<TUnion, TDiscriminant, TValue>,
+      state: DefaultReturnType<TUnion, TDiscriminant>,
+    ) => void,
+    options: Pick<NarrowOptions, "scope"> = {},
+  ): void {
+    useVariantChange((previous, current) => {
+      if (matches(previous, expected) && !matches(current, expected)) {
+        callback(previous as never, current as never);
+      }
+    }, options.scope);
+  }
+
+  /**
+   * Hook calling `callback` whenever the context moves directly from one variant
+   * (or set of variants) to another.
+   *
+   * @param from - The discriminant value (or array of values) moved out of
+   * @param to - The discriminant value (or array of values) moved into
+   * @param callback - Receives both values, each narrowed
+   * @param options - A `scope` to watch a particular ancestor Provider, as with useContext.
+   * @throws MissingProviderError if used outside of a Provider, or of one with the given scope
+   *
+   * @example
+   * useOnTransition('refreshing', 'authenticated', (from, to) => {
+   *   console.log(`Token refreshed for ${to.user.name}`);
+   * });
+   */
+  function useOnTransition<
+    TFrom extends ValidValues,
+    TTo extends ValidValues,
+  >(
+    from: TFrom | readonly TFrom[],
+    to: TTo | readonly TTo[],
+    callback: (
+      from: NarrowedReturnType<TUnion, TDiscriminant, TFrom>,
+      to: NarrowedReturnType<TUnion, TDiscriminant, TTo>,
+    ) => void,
+    options: Pick<NarrowOptions, "scope"> = {},
+  ): void {
+    useVariantChange((previous, current) => {
+      if (matches(previous, from) && matches(current, to)) {
+        callback(previous as never, current as never);
+      }
+    }, options.scope);
+  }
+
+  /**
+   * Wraps a component so that it only renders in the expected variant(s), receiving
+   * the narrowed value as a prop. For class and third-party components, which can't
+   * call useContext themselves.
+   *
+   * @param expected - The discriminant value (or array of values) to render in
+   * @param options - The prop to pass the value as, a fallback for other variants,
+   *                  and a `scope` to read a particular ancestor Provider
+   * @returns A function wrapping a component; the wrapped component no longer takes the injected prop
+   * @throws MissingProviderError if the wrapped component is rendered outside of a Provider,
+   *         or of one with the given scope
+   *
+   * @example
+   * class Profile extends React.Component<{ auth: AuthenticatedState; compact: boolean }> {
+   *   render() {
+   *     return <div>{this.props.auth.user.name}</div>;
+   *   }
+   * }
+   *
+   * const AuthenticatedProfile = withVariant('authenticated', {
+   *   prop: 'auth',
+   *   fallback: () => <LoginButton />,
+   * })(Profile);
+   *
+   * <AuthenticatedProfile compact />
+   */
+  function withVariant<
+    TValue extends ValidValues,
+    TProp extends string = "value",
+  >(
+    expected: TValue | readonly TValue[],
+    options: WithVariantOptions<
+      TProp,
+      DefaultReturnType<TUnion, TDiscriminant>
+    > = {},
+  ) {
+    const { prop = "value", fallback, scope } = options;
+
+    return <TProps extends { [K in TProp]: unknown }>(
+      WrappedComponent: ComponentType<TProps> &
+        // The component must accept the narrowed value for the injected prop
+        ([NarrowedReturnType<TUnion, TDiscriminant, TValue>] extends [
+          TProps[TProp],
+        ]
+          ? unknown
+          : ComponentType<{
+              [K in TProp]: NarrowedReturnType<
+                TUnion,
+                TDiscriminant,
+                TValue
+              >;
+            }>),
+    ): ComponentType<Omit<TProps, TProp>> => {
+      function WithVariant(props: Omit<TProps, TProp>): ReactNode {
+        const value = useProvidedValue(scope);
+
+        if (!matches(value, expected)) {
+          return (
+            fallback?.(
+              value as DefaultReturnType<TUnion, TDiscriminant>,
+            ) ?? null
+          );
+        }
+
+        return createElement(
+          WrappedComponent as ComponentType<object>,
+          {
+            ...props,
+            [prop]: value,
+          },
+        );
+      }
+
+      WithVariant.displayName = `withVariant(${WrappedComponent.displayName ?? WrappedComponent.name})`;
+      return WithVariant;
+    };
+  }
+
+  /**
+   * Whether the Provider value is back in a variant the failed consumer expected.
+   */
+  function hasRecovered(
+    error: unknown,
+    value: TUnion | null | undefined,
+  ): boolean {
+    return (
+      error instanceof DiscriminantMismatchError &&
+      value != null &&
+      error.mismatches.every((mismatch) =>
+        mismatch.expected.includes(
+          readPath(value, mismatch.discriminantKey),
+        ),
+      )
+    );
+  }
+
+  /**
+   * Error boundary behind DiscriminantBoundary, given its props and the Provider
+   * value it chooses fallbacks and resets on.
+   */
+  class MismatchBoundary extends Component<
+    {
+      boundary: DiscriminantBoundaryProps<TUnion, TDiscriminant>;
+      value: TUnion | null;
+    },
+    { error: unknown }
+  > {
+    override state: { error: unknown } = { error: null };
+
+    static getDerivedStateFromError(error: unknown) {
+      return { error };
+    }
+
+    override componentDidUpdate(): void {
+      const { error } = this.state;
+
+      if (error !== null && hasRecovered(error, this.props.value)) {
+        this.setState({ error: null });
+      }
+    }
+
+    override render(): ReactNode {
+      const { error } = this.state;
+      const { boundary, value } = this.props;
+
+      // Recovery waits for componentDidUpdate: a StoreProvider's store only
+      // catches up with its new value in a layout effect
+      if (error === null) {
+        return boundary.children;
+      }
+
+      if (
+        !(error instanceof DiscriminantMismatchError) ||
+        !thrownMismatches.has(error)
+      ) {
+        throw error;
+      }
+
+      if (value === null) {
+        return null;
+      }
+
+      const fallbacks = boundary as unknown as Record<
+        string,
+        ((value: TUnion) => ReactNode) | undefined
+      >;
+      const actual = String(readDiscriminant(value));
+      const fallback =
+        actual !== "children" && actual !== "otherwise"
+          ? fallbacks[actual]
+          : undefined;
+
+      if (fallback !== undefined) {
+        return fallback(value);
+      }
+
+      if (boundary.otherwise !== undefined) {
+        return boundary.otherwise(
+          value as DefaultReturnType<TUnion, TDiscriminant>,
+          error,
+        );
+      }
+
+      // Thrown under 'throw', with no fallback to render in its place
+      if (!policyFallbacks.has(error)) {
+        throw error;
+      }
+
+      return policyFallbacks.get(error);
+    }
+  }
+
+  /**
+   * Error boundary catching this context's DiscriminantMismatchErrors. It renders the
+   * fallback for the Provider's current variant, and renders its children again
+   * once the Provider value reaches a variant the failed consumer expected.
+   * Given a `scope`, it follows that ancestor Provider instead of the nearest.
+   * Any other error is rethrown to the next boundary, as is a mismatch with no
+   * fallback for the current variant, no `otherwise` and no policy fallback.
+   *
+   * @throws MissingProviderError if given a scope no enclosing Provider has
+   *
+   * @example
+   * <DiscriminantBoundary
+   *   idle={() => <LoginPrompt />}
+   *   error={(auth) => <ErrorMessage error={auth.error} />}
+   *   otherwise={() => <Spinner />}
+   * >
+   *   <UserProfile />
+   * </DiscriminantBoundary>
+   */
+  function DiscriminantBoundary(
+    props: DiscriminantBoundaryProps<TUnion, TDiscriminant>,
+  ): ReactElement {
+    // A "scope" variant's fallback is a function, not a scope
+    const { scope: scopeProp } = props as { scope?: unknown };
+    const scope = typeof scopeProp === "string" ? scopeProp : undefined;
+    const nearest = useContext(Ctx);
+    const scopes = useContext(ScopesCtx);
+
+    if (scope === undefined) {
+      return createElement(MismatchBoundary, {
+        boundary: props,
+        value: nearest,
+      });
+    }
+
+    const scoped = Object.prototype.hasOwnProperty.call(scopes, scope)
+      ? scopes[scope]
+      : undefined;
+
+    if (scoped === undefined) {
+      throw new MissingProviderError(
+        `DiscriminantBoundary must be used within a Provider with scope "${scope}". Pass scope="${scope}" to the Provider to read.`,
+        { discriminantKey, contextName },
+      );
+    }
+
+    return createElement(MismatchBoundary, {
+      boundary: props,
+      value: scoped.value,
+    });
+  }
+
+  DiscriminantBoundary.displayName =
+    contextName === undefined
+      ? "DiscriminantBoundary"
+      : `${contextName}Boundary`;
+
+  return {
+    /**
+     * The discriminant key (or path) the context narrows on.
+     */
+    discriminantKey,
+    /**
+     * The discriminant values declared with the `values` option, if any.
+     */
+    values: declaredValues as readonly ValidValues[] | undefined,
+    /**
+     * The React Context object. Use with Context.Provider to provide values.
+     */
+    Context: Ctx,
+    /**
+     * Context.Provider, checking the discriminant of its value in development.
+     */
+    Provider,
+    /**
+     * Hook to consume the discriminated context with required type narrowing.
+     * You must specify a discriminant value (or an array of values) to narrow the type.
+     */
+    useContext: useDiscriminatedContext,
+    /**
+     * Hook to consume the discriminated context with type narrowing,
+     * returning null instead of throwing when the variant doesn't match.
+     */
+    useContextIf: useDiscriminatedContextIf,
+    /**
+     * Hook returning the whole union without narrowing.
+     */
+    useUnion,
+    /**
+     * Component that renders a case per discriminant value, with compile-time exhaustiveness.
+     */
+    Match,
+    /**
+     * Error boundary rendering per-variant fallbacks for this context's mismatch errors.
+     */
+    DiscriminantBoundary,
+    /**
+     * Provider backed by an external store, required by useSelector.
+     */
+    StoreProvider,
+    /**
+     * Hook selecting a slice of the narrowed value, re-rendering only when it changes.
+     */
+    useSelector,
+    /**
+     * Higher-order component rendering a component only in the expected variant(s),
+     * with the narrowed value as a prop.
+     */
+    withVariant,
+    /**
+     * Hook calling back when the context enters the expected variant(s).
+     */
+    useOnEnter,
+    /**
+     * Hook calling back when the context leaves the expected variant(s).
+     */
+    useOnExit,
+    /**
+     * Hook calling back when the context moves from one variant to another.
+     */
+    useOnTransition,
+  } as const;
+}
+
+/**
+ * Everything createDiscriminatedContext returns, for typing code built on top of it.
+ */
+export type DiscriminatedContext<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+> = ReturnType<
+  typeof createDiscriminatedContext<TUnion, TDiscriminant>
+>;
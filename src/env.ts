@@ -0,0 +1,12 @@
+/**
+ * Whether development-only checks should run.
+ * Relies on bundlers replacing `process.env.NODE_ENV`; when `process` is not
+ * defined at all (e.g. an unbundled browser build), checks stay enabled.
+ */
+export function isDevelopment(): boolean {
+  try {
+    return process.env.NODE_ENV !== "production";
+  } catch {
+    return true;
+  }
+}
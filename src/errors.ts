@@ -0,0 +1,221 @@
+/**
+ * Prefixes a message with the context's name, when one was given.
+ */
+function withContextName(
+  message: string,
+  contextName: string | undefined,
+): string {
+  return contextName === undefined ? message : `[${contextName}] ${message}`;
+}
+
+/**
+ * Thrown when a hook or component is used outside of the Provider it reads from.
+ *
+ * @example
+ * if (error instanceof MissingProviderError) {
+ *   console.error(`Missing Provider for ${error.contextName ?? error.discriminantKey}`);
+ * }
+ */
+export class MissingProviderError extends Error {
+  override readonly name = "MissingProviderError";
+
+  /**
+   * The discriminant key of the context.
+   */
+  readonly discriminantKey: string;
+
+  /**
+   * The name passed to createDiscriminatedContext, if any.
+   */
+  readonly contextName: string | undefined;
+
+  constructor(
+    message: string,
+    details: { discriminantKey: string; contextName: string | undefined },
+  ) {
+    super(withContextName(message, details.contextName));
+    this.discriminantKey = details.discriminantKey;
+    this.contextName = details.contextName;
+  }
+}
+
+/**
+ * One discriminant key whose value didn't match what a consumer expected.
+ */
+export type DiscriminantMismatch = {
+  /**
+   * The discriminant key (or path) that didn't match.
+   */
+  readonly discriminantKey: string;
+  /**
+   * The value(s) the consumer accepted for this key.
+   */
+  readonly expected: readonly unknown[];
+  /**
+   * The value the Provider actually held for this key.
+   */
+  readonly actual: unknown;
+};
+
+/**
+ * Thrown when the context's discriminant doesn't match the value(s) a consumer expected.
+ *
+ * @example
+ * if (error instanceof DiscriminantMismatchError && error.actual === 'idle') {
+ *   return <LoginPrompt />;
+ * }
+ */
+export class DiscriminantMismatchError extends Error {
+  override readonly name = "DiscriminantMismatchError";
+
+  /**
+   * The discriminant key of the context, or the first mismatched key of a composite pattern.
+   */
+  readonly discriminantKey: string;
+
+  /**
+   * The discriminant value(s) the consumer accepted.
+   */
+  readonly expected: readonly unknown[];
+
+  /**
+   * The discriminant value the Provider actually held.
+   */
+  readonly actual: unknown;
+
+  /**
+   * Every key that didn't match. Composite patterns can mismatch on several keys;
+   * otherwise this holds the single mismatch described above.
+   */
+  readonly mismatches: readonly DiscriminantMismatch[];
+
+  /**
+   * The name passed to createDiscriminatedContext, if any.
+   */
+  readonly contextName: string | undefined;
+
+  constructor(
+    details: DiscriminantMismatch & {
+      contextName: string | undefined;
+      mismatches?: readonly DiscriminantMismatch[];
+    },
+  ) {
+    const mismatches = details.mismatches ?? [details];
+
+    super(
+      withContextName(
+        mismatches
+          .map(
+            (mismatch) =>
+              `Expected ${mismatch.discriminantKey}=${mismatch.expected.map(String).join(" | ")}, got ${String(mismatch.actual)}`,
+          )
+          .join("; "),
+        details.contextName,
+      ),
+    );
+    this.discriminantKey = details.discriminantKey;
+    this.expected = details.expected;
+    this.actual = details.actual;
+    this.mismatches = mismatches.map(
+      ({ discriminantKey, expected, actual }) => ({
+        discriminantKey,
+        expected,
+        actual,
+      }),
+    );
+    this.contextName = details.contextName;
+  }
+}
+
+/**
+ * A single problem found while validating a Provider value.
+ */
+export type ValidationIssue = {
+  /**
+   * What is wrong with the value.
+   */
+  readonly message: string;
+  /**
+   * Path to the offending field; empty when the problem is with the value as a whole.
+   */
+  readonly path: readonly PropertyKey[];
+};
+
+/**
+ * Thrown in development when a Provider value fails its variant's validator,
+ * has no discriminant, or has a discriminant value without a validator.
+ *
+ * @example
+ * if (error instanceof InvalidProviderValueError) {
+ *   console.error(error.variant, error.issues.map((issue) => issue.path.join('.')));
+ * }
+ */
+export class InvalidProviderValueError extends Error {
+  override readonly name = "InvalidProviderValueError";
+
+  /**
+   * The discriminant key of the context.
+   */
+  readonly discriminantKey: string;
+
+  /**
+   * The discriminant value of the invalid Provider value.
+   */
+  readonly variant: unknown;
+
+  /**
+   * The problems found, each with the path of the field it concerns.
+   */
+  readonly issues: readonly ValidationIssue[];
+
+  /**
+   * The name passed to createDiscriminatedContext, if any.
+   */
+  readonly contextName: string | undefined;
+
+  constructor(details: {
+    discriminantKey: string;
+    variant: unknown;
+    issues: readonly ValidationIssue[];
+    contextName: string | undefined;
+  }) {
+    const issues = details.issues.map((issue) =>
+      issue.path.length === 0
+        ? issue.message
+        : `${issue.path.map(String).join(".")}: ${issue.message}`,
+    );
+
+    super(
+      withContextName(
+        `Invalid Provider value for ${details.discriminantKey}=${String(details.variant)}: ${issues.join("; ")}`,
+        details.contextName,
+      ),
+    );
+    this.discriminantKey = details.discriminantKey;
+    this.variant = details.variant;
+    this.issues = details.issues;
+    this.contextName = details.contextName;
+  }
+}
+
+/**
+ * Thrown by the code generator when a schema can't be turned into a discriminated union.
+ *
+ * @example
+ * if (error instanceof SchemaCodegenError) {
+ *   console.error(`${error.pointer}: ${error.message}`);
+ * }
+ */
+export class SchemaCodegenError extends Error {
+  override readonly name = "SchemaCodegenError";
+
+  /**
+   * JSON pointer to the schema at fault, e.g. `#/components/schemas/Pet`.
+   */
+  readonly pointer: string;
+
+  constructor(message: string, pointer: string) {
+    super(message);
+    this.pointer = pointer;
+  }
+}
@@ -0,0 +1,305 @@
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useRef,
+  type ReactElement,
+  type ReactNode,
+} from "react";
+import {
+  createDiscriminatedContext,
+  useIsomorphicLayoutEffect,
+  type CaseKey,
+  type DiscriminantPath,
+  type DiscriminantValues,
+  type DiscriminatedContext,
+  type DiscriminatedContextArgs,
+  type NarrowedReturnType,
+} from "./context.js";
+import { isDevelopment } from "./env.js";
+import { MissingProviderError } from "./errors.js";
+import { readPath, writePath } from "./path.js";
+import { usePersistedState, type Persistence } from "./persistence.js";
+
+/**
+ * Declares, for every discriminant value, the discriminant values it may transition to.
+ * Terminal variants list no targets.
+ *
+ * @example
+ * type AuthState =
+ *   | { status: 'idle' }
+ *   | { status: 'loading' }
+ *   | { status: 'authenticated'; user: User }
+ *   | { status: 'error'; error: string };
+ *
+ * const transitions = {
+ *   idle: ['loading'],
+ *   loading: ['authenticated', 'error'],
+ *   authenticated: ['idle'],
+ *   error: ['idle', 'loading'],
+ * } satisfies TransitionMap<AuthState, 'status'>;
+ */
+export type TransitionMap<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+> = {
+  [V in DiscriminantValues<TUnion, TDiscriminant> as CaseKey<V>]: readonly DiscriminantValues<
+    TUnion,
+    TDiscriminant
+  >[];
+};
+
+/**
+ * Gets the discriminant values reachable in one transition from a given value.
+ */
+type TransitionTargets<TTransitions, TFrom> =
+  CaseKey<TFrom> extends keyof TTransitions
+    ? TTransitions[CaseKey<TFrom>] extends readonly (infer TTo)[]
+      ? TTo
+      : never
+    : never;
+
+/**
+ * Removes the key at the end of a path, keeping the objects along the way.
+ */
+type OmitPath<T, TPath> = T extends unknown
+  ? TPath extends keyof T
+    ? Omit<T, TPath>
+    : TPath extends `${infer Head}.${infer Rest}`
+      ? Head extends keyof T
+        ? Omit<T, Head> & { [K in Head]: OmitPath<T[Head], Rest> }
+        : never
+      : never
+  : never;
+
+/**
+ * The data needed to enter a variant: its fields without the discriminant.
+ */
+type TransitionPayload<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+  TTo,
+> = OmitPath<
+  NarrowedReturnType<
+    TUnion,
+    TDiscriminant,
+    Extract<TTo, DiscriminantValues<TUnion, TDiscriminant>>
+  >,
+  TDiscriminant
+>;
+
+/**
+ * Makes the payload argument optional when the target variant has no required fields.
+ */
+type TransitionArgs<TPayload> = {} extends TPayload
+  ? [payload?: TPayload]
+  : [payload: TPayload];
+
+/**
+ * Props for a machine's Provider.
+ */
+type MachineProviderProps<TUnion> = {
+  /**
+   * The state the machine starts in. Later changes to this prop are ignored.
+   */
+  initial: TUnion;
+  /**
+   * Persistence adapter from createPersistence. The stored state is restored on
+   * mount, without checking transitions, and every persistable state is saved.
+   */
+  persistence?: Persistence<TUnion>;
+  /**
+   * Makes the state readable by name below this Provider, with `{ scope }`.
+   */
+  scope?: string;
+  children?: ReactNode;
+};
+
+/**
+ * What a machine is: its context, plus a Provider owning the state and a
+ * useTransition hook. Spelled out so declarations reference the context by name.
+ */
+type DiscriminatedMachine<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+  TTransitions,
+> = Omit<DiscriminatedContext<TUnion, TDiscriminant>, "Provider"> & {
+  readonly Provider: (
+    props: MachineProviderProps<TUnion>,
+  ) => ReactElement;
+  readonly useTransition: <
+    TFrom extends DiscriminantValues<TUnion, TDiscriminant>,
+  >(
+    from: TFrom,
+  ) => <TTo extends TransitionTargets<TTransitions, TFrom>>(
+    to: TTo,
+    ...args: TransitionArgs<
+      TransitionPayload<TUnion, TDiscriminant, TTo>
+    >
+  ) => void;
+};
+
+/**
+ * Creates a discriminated context whose Provider owns the state and only
+ * allows moving between variants along a declared transition map.
+ *
+ * Called in two steps so the union type can be given explicitly while the
+ * transition map is inferred, which is what lets TypeScript reject illegal edges.
+ *
+ * @param discriminantKey - The key used as the discriminant in the union type
+ * @param contextArgs - Optional settings, passed through to createDiscriminatedContext
+ * @returns A function taking the transition map and returning everything
+ *          createDiscriminatedContext returns, plus a Provider and a useTransition hook
+ *
+ * @example
+ * const auth = createDiscriminatedMachine<AuthState, 'status'>('status')({
+ *   idle: ['loading'],
+ *   loading: ['authenticated', 'error'],
+ *   authenticated: ['idle'],
+ *   error: ['idle', 'loading'],
+ * });
+ *
+ * // <auth.Provider initial={{ status: 'idle' }}>...</auth.Provider>
+ *
+ * function LoginButton() {
+ *   const transition = auth.useTransition('idle');
+ *   return <button onClick={() => transition('loading')}>Log in</button>;
+ *   // transition('authenticated', ...) is a compile-time error: idle -> authenticated is not declared
+ * }
+ */
+export function createDiscriminatedMachine<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+>(
+  discriminantKey: TDiscriminant,
+  ...contextArgs: DiscriminatedContextArgs<TUnion, TDiscriminant>
+) {
+  type ValidValues = DiscriminantValues<TUnion, TDiscriminant>;
+
+  return function withTransitions<
+    const TTransitions extends TransitionMap<TUnion, TDiscriminant>,
+  >(
+    transitions: TTransitions,
+  ): DiscriminatedMachine<TUnion, TDiscriminant, TTransitions> {
+    const context = createDiscriminatedContext<TUnion, TDiscriminant>(
+      discriminantKey,
+      ...contextArgs,
+    );
+
+    const TransitionCtx = createContext<
+      ((from: unknown, to: unknown, payload: object | undefined) => void) | null
+    >(null);
+
+    /**
+     * Gets the targets declared for a discriminant value.
+     */
+    function targetsOf(from: unknown): readonly unknown[] {
+      const targets = (
+        transitions as Record<string, readonly unknown[] | undefined>
+      )[String(from)];
+
+      return targets ?? [];
+    }
+
+    /**
+     * Provider that owns the machine state, starting from `initial`.
+     */
+    function Provider({
+      initial,
+      persistence,
+      scope,
+      children,
+    }: MachineProviderProps<TUnion>): ReactElement {
+      const [state, setState] = usePersistedState(persistence, initial);
+      const stateRef = useRef(state);
+
+      // Picks up restored state, which doesn't go through transition
+      useIsomorphicLayoutEffect(() => {
+        stateRef.current = state;
+      }, [state]);
+
+      const transition = useCallback(
+        (from: unknown, to: unknown, payload: object | undefined) => {
+          if (isDevelopment()) {
+            const current = readPath(stateRef.current, discriminantKey);
+
+            if (!Object.is(current, from)) {
+              throw new Error(
+                `Can't transition from ${discriminantKey}=${String(from)}: the state is ${discriminantKey}=${String(current)}`,
+              );
+            }
+
+            if (!targetsOf(from).includes(to)) {
+              throw new Error(
+                `Illegal transition ${discriminantKey}=${String(from)} -> ${String(to)}`,
+              );
+            }
+          }
+
+          const next = writePath(payload ?? {}, discriminantKey, to) as TUnion;
+          stateRef.current = next;
+          setState(next);
+        },
+        [],
+      );
+
+      return createElement(
+        context.StoreProvider,
+        { value: state, scope },
+        createElement(TransitionCtx.Provider, { value: transition }, children),
+      );
+    }
+
+    /**
+     * Hook returning a typed transition function for moving out of a variant.
+     *
+     * @param from - The variant being transitioned from. Only its declared targets
+     *               are accepted by the returned function.
+     * @returns A function taking the target discriminant value and the target
+     *          variant's fields (without the discriminant)
+     * @throws MissingProviderError if used outside of the machine's Provider
+     * @throws Error in development if the state is no longer in `from`, or if
+     *         `from` has no declared edge to the target
+     *
+     * @example
+     * const transition = useTransition('loading');
+     * transition('authenticated', { user });
+     * transition('error', { error: 'Invalid credentials' });
+     */
+    function useTransition<TFrom extends ValidValues>(from: TFrom) {
+      const transition = useContext(TransitionCtx);
+
+      const transitionFrom = useCallback(
+        <TTo extends TransitionTargets<TTransitions, TFrom>>(
+          to: TTo,
+          ...args: TransitionArgs<TransitionPayload<TUnion, TDiscriminant, TTo>>
+        ): void => {
+          transition?.(from, to, args[0]);
+        },
+        [transition, from],
+      );
+
+      if (transition === null) {
+        throw new MissingProviderError(
+          "useTransition must be used within the machine's Provider. Wrap your component tree with <Provider>.",
+          { discriminantKey, contextName: contextArgs[0]?.name },
+        );
+      }
+
+      return transitionFrom;
+    }
+
+    return {
+      ...context,
+      /**
+       * Provider that owns the state. Pass the starting variant as `initial`.
+       */
+      Provider,
+      /**
+       * Hook returning a transition function restricted to the declared edges of a variant.
+       */
+      useTransition,
+    } as const;
+  };
+}
@@ -0,0 +1,52 @@
+/**
+ * Reads a discriminant from a value. The path is a top-level key or a dotted
+ * path such as 'result.kind'; a top-level key containing dots takes precedence.
+ * Returns undefined when the path doesn't resolve.
+ */
+export function readPath(value: unknown, path: string): unknown {
+  if (typeof value !== "object" || value === null) {
+    return undefined;
+  }
+
+  if (path in value) {
+    return (value as Record<string, unknown>)[path];
+  }
+
+  const dot = path.indexOf(".");
+
+  return dot === -1
+    ? undefined
+    : readPath(
+        (value as Record<string, unknown>)[path.slice(0, dot)],
+        path.slice(dot + 1),
+      );
+}
+
+/**
+ * Returns a copy of a value with the discriminant at a path set, copying each
+ * object along a dotted path and creating the ones that are missing.
+ */
+export function writePath(
+  value: object,
+  path: string,
+  discriminant: unknown,
+): Record<string, unknown> {
+  const record = value as Record<string, unknown>;
+  const dot = path.indexOf(".");
+
+  if (dot === -1 || path in record) {
+    return { ...record, [path]: discriminant };
+  }
+
+  const head = path.slice(0, dot);
+  const nested = record[head];
+
+  return {
+    ...record,
+    [head]: writePath(
+      typeof nested === "object" && nested !== null ? nested : {},
+      path.slice(dot + 1),
+      discriminant,
+    ),
+  };
+}
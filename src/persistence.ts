@@ -0,0 +1,327 @@
+import {
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import {
+  useIsomorphicLayoutEffect,
+  type DiscriminantPath,
+  type DiscriminantValues,
+} from "./context.js";
+import { readPath } from "./path.js";
+import { parseValue, stringifyValue } from "./serialization.js";
+
+/**
+ * The storage backend used for persistence. `localStorage` and `sessionStorage`
+ * implement it, as does createMemoryStorage.
+ */
+export type PersistenceStorage = {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+};
+
+/**
+ * Options for createPersistence.
+ */
+export type PersistenceOptions<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+> = {
+  /**
+   * The storage key the value is kept under.
+   */
+  key: string;
+  /**
+   * The discriminant values that are saved. What saving a value in any other
+   * variant does is up to `otherVariants`.
+   */
+  variants: readonly DiscriminantValues<TUnion, TDiscriminant>[];
+  /**
+   * What saving a value outside `variants` does to the stored value: `'clear'`
+   * removes it, so that an outdated value isn't restored on the next load, and
+   * `'keep'` leaves the last saved value stored. Defaults to `'clear'`.
+   */
+  otherVariants?: "clear" | "keep";
+  /**
+   * Version of the stored shape. Defaults to 0.
+   */
+  version?: number;
+  /**
+   * Migrations keyed by the version they produce, each receiving the value stored
+   * under the previous version. Values that can't be migrated to the current version,
+   * including those a migration throws on, are discarded.
+   */
+  migrations?: Readonly<Record<number, (value: unknown) => unknown>>;
+  /**
+   * Where the value is stored. Defaults to `localStorage`. Errors it throws, such
+   * as a SecurityError or QuotaExceededError, are ignored: nothing is loaded or saved.
+   */
+  storage?: PersistenceStorage;
+};
+
+/**
+ * A persisted value, as stored by createPersistence.
+ */
+export type Persistence<TUnion> = {
+  /**
+   * Reads, migrates and revives the stored value, if there is a usable one.
+   */
+  load(): TUnion | undefined;
+  /**
+   * Stores the value when its variant is persistable, and otherwise clears or
+   * keeps the stored one as configured.
+   */
+  save(value: TUnion): void;
+  /**
+   * Removes the stored value.
+   */
+  clear(): void;
+};
+
+/**
+ * The envelope written to storage.
+ */
+type StoredValue = {
+  version: number;
+  value: unknown;
+};
+
+/**
+ * Creates an in-memory storage backend, e.g. for tests or environments without `localStorage`.
+ *
+ * @param initial - Entries the storage starts with
+ */
+export function createMemoryStorage(
+  initial: Readonly<Record<string, string>> = {},
+): PersistenceStorage {
+  const entries = new Map(Object.entries(initial));
+
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+/**
+ * Creates a persistence adapter that saves a discriminated union value to storage
+ * and restores it, Dates included, on the next load.
+ *
+ * Stored values carry a version. When `version` is raised, values stored under
+ * older versions are passed through `migrations` one version at a time.
+ *
+ * @param discriminantKey - The key used as the discriminant in the union type
+ * @param options - The storage key, persistable variants and what other variants do, version,
+ *                  migrations and storage backend
+ * @returns An object with load, save and clear functions, and a usePersistedState hook
+ *
+ * @example
+ * const authPersistence = createPersistence<AuthState, 'status'>('status', {
+ *   key: 'auth',
+ *   variants: ['idle', 'authenticated'],
+ *   version: 2,
+ *   migrations: {
+ *     2: (value) => {
+ *       const { expiresAt, ...rest } = value as AuthStateV1;
+ *       return { ...rest, session: { expiresAt } };
+ *     },
+ *   },
+ * });
+ *
+ * function AuthProvider({ children }: { children: React.ReactNode }) {
+ *   const [auth, setAuth] = authPersistence.usePersistedState({ status: 'idle' });
+ *   return <AuthContext.Provider value={auth}>{children}</AuthContext.Provider>;
+ * }
+ */
+export function createPersistence<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+>(
+  discriminantKey: TDiscriminant,
+  options: PersistenceOptions<TUnion, TDiscriminant>,
+) {
+  const {
+    key,
+    variants,
+    otherVariants = "clear",
+    version = 0,
+    migrations = {},
+  } = options;
+
+  /**
+   * Resolves the storage lazily, so that importing on the server doesn't touch `localStorage`.
+   */
+  function getStorage(): PersistenceStorage | undefined {
+    return (
+      options.storage ??
+      (typeof localStorage === "undefined" ? undefined : localStorage)
+    );
+  }
+
+  /**
+   * Runs a storage operation, treating errors as if there were no storage. Browsers
+   * throw on `localStorage` access when storage is blocked, and on writes when full.
+   */
+  function withStorage<TResult>(
+    operation: (storage: PersistenceStorage) => TResult,
+  ): TResult | undefined {
+    try {
+      const storage = getStorage();
+      return storage === undefined ? undefined : operation(storage);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Whether the value's variant is one of the persistable variants.
+   */
+  function isPersistable(value: unknown): value is TUnion {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      (variants as readonly unknown[]).includes(
+        readPath(value, discriminantKey),
+      )
+    );
+  }
+
+  function load(): TUnion | undefined {
+    const raw = withStorage((storage) => storage.getItem(key));
+
+    if (raw === null || raw === undefined) {
+      return undefined;
+    }
+
+    let stored: StoredValue;
+
+    try {
+      stored = parseValue(raw) as StoredValue;
+    } catch {
+      return undefined;
+    }
+
+    if (
+      typeof stored?.version !== "number" ||
+      stored.version > version
+    ) {
+      return undefined;
+    }
+
+    let value = stored.value;
+
+    for (let next = stored.version + 1; next <= version; next++) {
+      const migrate = migrations[next];
+
+      if (migrate === undefined) {
+        return undefined;
+      }
+
+      try {
+        value = migrate(value);
+      } catch {
+        return undefined;
+      }
+    }
+
+    return isPersistable(value) ? value : undefined;
+  }
+
+  function save(value: TUnion): void {
+    if (isPersistable(value)) {
+      withStorage((storage) =>
+        storage.setItem(
+          key,
+          stringifyValue({ version, value } satisfies StoredValue),
+        ),
+      );
+    } else if (otherVariants === "clear") {
+      clear();
+    }
+  }
+
+  function clear(): void {
+    withStorage((storage) => storage.removeItem(key));
+  }
+
+  const persistence: Persistence<TUnion> = { load, save, clear };
+
+  /**
+   * Like useState, but restores the stored value on mount and saves every
+   * persistable value afterwards.
+   *
+   * @param initial - The value used until (or unless) a stored value is restored
+   *
+   * @example
+   * const [auth, setAuth] = authPersistence.usePersistedState({ status: 'idle' });
+   */
+  function useBoundPersistedState(
+    initial: TUnion,
+  ): [TUnion, Dispatch<SetStateAction<TUnion>>] {
+    return usePersistedState(persistence, initial);
+  }
+
+  return {
+    /**
+     * Reads the stored value, or returns undefined if there is none or it can't be migrated.
+     */
+    load,
+    /**
+     * Stores a value, or clears the stored one if its variant isn't persistable
+     * (unless `otherVariants` is `'keep'`).
+     */
+    save,
+    /**
+     * Removes the stored value.
+     */
+    clear,
+    /**
+     * useState that rehydrates from storage on mount and saves on change.
+     */
+    usePersistedState: useBoundPersistedState,
+  } as const;
+}
+
+/**
+ * State that is restored from a persistence adapter on mount and saved to it on
+ * every change. Restoring happens in a layout effect, so server and client render
+ * the same initial value.
+ */
+export function usePersistedState<TUnion>(
+  persistence: Persistence<TUnion> | undefined,
+  initial: TUnion,
+): [TUnion, Dispatch<SetStateAction<TUnion>>] {
+  const [state, setState] = useState(initial);
+  // The restored value, until it has been rendered; saving waits for it
+  const restoring = useRef<{ value: TUnion } | null>(null);
+
+  useIsomorphicLayoutEffect(() => {
+    const stored = persistence?.load();
+
+    if (stored !== undefined) {
+      restoring.current = { value: stored };
+      setState(stored);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (restoring.current !== null) {
+      if (restoring.current.value !== state) {
+        return;
+      }
+
+      restoring.current = null;
+    }
+
+    persistence?.save(state);
+  }, [state]);
+
+  return [state, setState];
+}
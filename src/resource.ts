@@ -0,0 +1,240 @@
+import {
+  createContext,
+  createElement,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactElement,
+  type ReactNode,
+} from "react";
+import {
+  createDiscriminatedContext,
+  type DiscriminatedContext,
+} from "./context.js";
+import { MissingProviderError } from "./errors.js";
+
+/**
+ * The lifecycle of an async request: not started, in flight, resolved or rejected.
+ * With `keepPreviousData`, reloads carry the last resolved data as `previousData`.
+ */
+export type AsyncResourceState<TData, TError = unknown> =
+  | { status: "idle" }
+  | { status: "loading"; previousData?: TData }
+  | { status: "success"; data: TData }
+  | { status: "error"; error: TError };
+
+/**
+ * Options for createAsyncResource.
+ */
+export type AsyncResourceOptions = {
+  /**
+   * Name used as the Context's displayName and included in thrown errors.
+   */
+  name?: string;
+  /**
+   * Keep the last resolved data on the loading state, as `previousData`, while
+   * reloading. Defaults to false.
+   */
+  keepPreviousData?: boolean;
+};
+
+/**
+ * Controls for a resource, returned by useResource.
+ */
+type AsyncResourceControls<TArgs> = {
+  /**
+   * Starts a request, aborting the one in flight. Resolves once this request
+   * settles or is superseded; failures are reported through the error state.
+   */
+  readonly run: (args: TArgs) => Promise<void>;
+  /**
+   * Aborts the request in flight, if any, and returns to idle.
+   */
+  readonly reset: () => void;
+};
+
+/**
+ * Props for a resource's Provider.
+ */
+type AsyncResourceProviderProps = {
+  /**
+   * Makes the state readable by name below this Provider, with `{ scope }`.
+   */
+  scope?: string;
+  children?: ReactNode;
+};
+
+/**
+ * The return type of createAsyncResource: the context over the resource state,
+ * with the Provider owning it and the hook controlling it.
+ */
+type AsyncResource<TArgs, TData, TError> = Omit<
+  DiscriminatedContext<AsyncResourceState<TData, TError>, "status">,
+  "Provider"
+> & {
+  readonly Provider: (props: AsyncResourceProviderProps) => ReactElement;
+  readonly useResource: () => AsyncResourceControls<TArgs>;
+};
+
+/**
+ * Creates a discriminated context for the lifecycle of an async function:
+ * `idle`, `loading`, `success` and `error`. The Provider owns the state, and
+ * useResource starts requests. Starting a request aborts the previous one through
+ * its AbortSignal, and its result is ignored.
+ *
+ * @param load - The async function, receiving the arguments given to run and an AbortSignal
+ * @param options - Optional settings: a name, and whether reloads keep the previous data
+ * @returns Everything createDiscriminatedContext returns, plus a Provider and a useResource hook
+ *
+ * @example
+ * const user = createAsyncResource(
+ *   async (id: string, signal: AbortSignal) => {
+ *     const response = await fetch(`/api/users/${id}`, { signal });
+ *     return (await response.json()) as User;
+ *   },
+ *   { name: 'User', keepPreviousData: true },
+ * );
+ *
+ * function UserPage({ id }: { id: string }) {
+ *   const { run } = user.useResource();
+ *   useEffect(() => void run(id), [id]);
+ *   return (
+ *     <user.Match
+ *       idle={() => null}
+ *       loading={() => <Spinner />}
+ *       success={(state) => <Profile user={state.data} />}
+ *       error={(state) => <ErrorMessage error={state.error} />}
+ *     />
+ *   );
+ * }
+ */
+export function createAsyncResource<TArgs, TData, TError = unknown>(
+  load: (args: TArgs, signal: AbortSignal) => Promise<TData>,
+  options: AsyncResourceOptions = {},
+): AsyncResource<TArgs, TData, TError> {
+  type State = AsyncResourceState<TData, TError>;
+
+  const { keepPreviousData = false } = options;
+  const context = createDiscriminatedContext<State, "status">(
+    "status",
+    {
+      name: options.name,
+    },
+  );
+
+  const ControlsCtx =
+    createContext<AsyncResourceControls<TArgs> | null>(null);
+
+  /**
+   * Provider that owns the resource state, starting idle.
+   */
+  function Provider({
+    scope,
+    children,
+  }: AsyncResourceProviderProps): ReactElement {
+    const [state, setState] = useState<State>({ status: "idle" });
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const abort = useCallback(() => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    }, []);
+
+    const run = useCallback(
+      async (args: TArgs): Promise<void> => {
+        abort();
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        const isCurrent = () => controllerRef.current === controller;
+
+        setState((previous) => {
+          const previousData = !keepPreviousData
+            ? undefined
+            : previous.status === "success"
+              ? previous.data
+              : previous.status === "loading"
+                ? previous.previousData
+                : undefined;
+
+          return previousData === undefined
+            ? { status: "loading" }
+            : { status: "loading", previousData };
+        });
+
+        try {
+          const data = await load(args, controller.signal);
+
+          if (isCurrent()) {
+            controllerRef.current = null;
+            setState({ status: "success", data });
+          }
+        } catch (error) {
+          if (isCurrent()) {
+            controllerRef.current = null;
+            setState({ status: "error", error: error as TError });
+          }
+        }
+      },
+      [abort],
+    );
+
+    const reset = useCallback(() => {
+      abort();
+      setState({ status: "idle" });
+    }, [abort]);
+
+    // Abort the request in flight on unmount
+    useEffect(() => abort, [abort]);
+
+    const controls = useMemo(() => ({ run, reset }), [run, reset]);
+
+    return createElement(
+      context.StoreProvider,
+      { value: state, scope },
+      createElement(
+        ControlsCtx.Provider,
+        { value: controls },
+        children,
+      ),
+    );
+  }
+
+  /**
+   * Hook returning the functions that start and reset requests. They are stable
+   * across renders.
+   *
+   * @throws MissingProviderError if used outside of the resource's Provider
+   *
+   * @example
+   * const { run, reset } = user.useResource();
+   * <button onClick={() => run('user-123')}>Load</button>
+   */
+  function useResource(): AsyncResourceControls<TArgs> {
+    const controls = useContext(ControlsCtx);
+
+    if (controls === null) {
+      throw new MissingProviderError(
+        "useResource must be used within the resource's Provider. Wrap your component tree with <Provider>.",
+        { discriminantKey: "status", contextName: options.name },
+      );
+    }
+
+    return controls;
+  }
+
+  return {
+    ...context,
+    /**
+     * Provider that owns the resource state.
+     */
+    Provider,
+    /**
+     * Hook returning run and reset for this resource.
+     */
+    useResource,
+  } as const;
+}
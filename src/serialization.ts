@@ -0,0 +1,74 @@
+// `$date` marks an encoded Date; user objects whose only key is `$date`, `$$date`,
+// ... are escaped with one more `$`, so they can't be mistaken for one
+const DATE_KEYS = /^\$+date$/;
+
+/**
+ * Returns the key of an object whose only key is `$date` or an escaped form of it.
+ */
+function dateKeyOf(value: unknown): string | undefined {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const keys = Object.keys(value);
+
+  return keys.length === 1 && DATE_KEYS.test(keys[0] ?? "")
+    ? keys[0]
+    : undefined;
+}
+
+/**
+ * Encodes Dates as `{ $date: isoString }`, since JSON would turn them into plain
+ * strings, and escapes objects that would read back as one.
+ */
+function replacer(this: unknown, key: string, value: unknown): unknown {
+  const raw = (this as Record<string, unknown>)[key];
+
+  if (raw instanceof Date) {
+    return { $date: raw.toJSON() };
+  }
+
+  const dateKey = dateKeyOf(value);
+
+  return dateKey === undefined
+    ? value
+    : { [`$${dateKey}`]: (value as Record<string, unknown>)[dateKey] };
+}
+
+/**
+ * Turns `{ $date: isoString }` objects written by replacer back into Dates, and
+ * unescapes the objects it escaped.
+ */
+function reviver(_key: string, value: unknown): unknown {
+  const dateKey = dateKeyOf(value);
+
+  if (dateKey === undefined) {
+    return value;
+  }
+
+  const content = (value as Record<string, unknown>)[dateKey];
+
+  if (dateKey !== "$date") {
+    return { [dateKey.slice(1)]: content };
+  }
+
+  return typeof content === "string" || content === null
+    ? new Date(content ?? Number.NaN)
+    : value;
+}
+
+/**
+ * Serializes a value to JSON, keeping Dates recoverable by parseValue.
+ */
+export function stringifyValue(value: unknown): string {
+  return JSON.stringify(value, replacer);
+}
+
+/**
+ * Parses JSON written by stringifyValue, reviving its Dates.
+ *
+ * @throws SyntaxError if the text isn't valid JSON
+ */
+export function parseValue(text: string): unknown {
+  return JSON.parse(text, reviver);
+}
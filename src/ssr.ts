@@ -0,0 +1,142 @@
+import {
+  createElement,
+  useState,
+  type Dispatch,
+  type ReactElement,
+  type SetStateAction,
+} from "react";
+import type { DiscriminantPath } from "./context.js";
+import { readPath } from "./path.js";
+import { parseValue, stringifyValue } from "./serialization.js";
+
+/**
+ * Options for createHydration.
+ */
+export type HydrationOptions = {
+  /**
+   * The id of the script element carrying the state. Must be unique per page.
+   */
+  id: string;
+};
+
+// Characters that could end the script element or break it as JavaScript, escaped as JSON unicode escapes
+const UNSAFE_CHARACTERS: Readonly<Record<string, string>> = {
+  "<": "\\u003c",
+  ">": "\\u003e",
+  "&": "\\u0026",
+  "\u2028": "\\u2028",
+  "\u2029": "\\u2029",
+};
+
+/**
+ * Creates helpers for passing a discriminated union value from a server render
+ * to the client: the server embeds the value in a JSON script element, and the
+ * client reads it back as the Provider's first value, so both render the same markup.
+ *
+ * Dates are preserved; functions and undefined fields are dropped, as in JSON.
+ *
+ * @param discriminantKey - The key used as the discriminant in the union type
+ * @param options - The id of the script element
+ * @returns An object with serialize and read functions, a Script component and a useHydratedState hook
+ *
+ * @example
+ * const authHydration = createHydration<AuthState, 'status'>('status', { id: 'auth-state' });
+ *
+ * function App({ serverAuth }: { serverAuth?: AuthState }) {
+ *   // The server passes its state; on the client the embedded one is used
+ *   const [auth, setAuth] = authHydration.useHydratedState(serverAuth ?? { status: 'idle' });
+ *   return (
+ *     <AuthContext.Provider value={auth}>
+ *       <authHydration.Script value={auth} />
+ *       <Routes />
+ *     </AuthContext.Provider>
+ *   );
+ * }
+ */
+export function createHydration<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+>(discriminantKey: TDiscriminant, options: HydrationOptions) {
+  const { id } = options;
+
+  /**
+   * Serializes a value as JSON that is safe to inline in a script element.
+   */
+  function serialize(value: TUnion): string {
+    return stringifyValue(value).replace(
+      /[<>&\u2028\u2029]/g,
+      (character) => UNSAFE_CHARACTERS[character] ?? character,
+    );
+  }
+
+  /**
+   * Reads the value embedded by Script, or returns undefined if there is none,
+   * it can't be parsed, or it has no discriminant.
+   */
+  function read(): TUnion | undefined {
+    if (typeof document === "undefined") {
+      return undefined;
+    }
+
+    const text = document.getElementById(id)?.textContent;
+
+    if (text == null) {
+      return undefined;
+    }
+
+    let value: unknown;
+
+    try {
+      value = parseValue(text);
+    } catch {
+      return undefined;
+    }
+
+    return readPath(value, discriminantKey) === undefined
+      ? undefined
+      : (value as TUnion);
+  }
+
+  /**
+   * Renders the JSON script element carrying the value. Render it on both the
+   * server and the client, with the same value, to keep hydration consistent.
+   */
+  function Script({ value }: { value: TUnion }): ReactElement {
+    return createElement("script", {
+      id,
+      type: "application/json",
+      dangerouslySetInnerHTML: { __html: serialize(value) },
+    });
+  }
+
+  /**
+   * Like useState, but on the client starts from the value embedded by the
+   * server, falling back to `initial` when there is none.
+   *
+   * @param initial - The value on the server, and the client fallback
+   */
+  function useHydratedState(
+    initial: TUnion,
+  ): [TUnion, Dispatch<SetStateAction<TUnion>>] {
+    return useState(() => read() ?? initial);
+  }
+
+  return {
+    /**
+     * Serializes a value for a script element, e.g. in a hand-written HTML template.
+     */
+    serialize,
+    /**
+     * Reads the value the server embedded in the page.
+     */
+    read,
+    /**
+     * Script element embedding the value in the server-rendered HTML.
+     */
+    Script,
+    /**
+     * useState that starts from the server's value when hydrating.
+     */
+    useHydratedState,
+  } as const;
+}
@@ -0,0 +1,432 @@
+import { systemClock, toTimestamp, type Clock } from "./clock.js";
+import type {
+  CaseKey,
+  DiscriminantPath,
+  DiscriminantPattern,
+  DiscriminantValues,
+  ExactPattern,
+  NarrowedReturnType,
+  PatternConstraint,
+  PatternReturnType,
+} from "./context.js";
+import {
+  DiscriminantMismatchError,
+  type DiscriminantMismatch,
+} from "./errors.js";
+import { readPath } from "./path.js";
+
+/**
+ * A timed transition out of a variant.
+ */
+export type ScheduledTransition<TState, TUnion> = {
+  /**
+   * When to transition, as a Date or timestamp; undefined schedules nothing.
+   * Times in the past transition right away.
+   */
+  at: (state: TState) => Date | number | undefined;
+  /**
+   * The value to transition to, computed from the value being left.
+   */
+  to: (state: TState) => TUnion;
+};
+
+/**
+ * Timed transitions per discriminant value. Each receives the narrowed variant.
+ *
+ * @example
+ * const schedule: TransitionSchedule<AuthState, 'status'> = {
+ *   locked: { at: (state) => state.unlockAt, to: () => ({ status: 'idle' }) },
+ * };
+ */
+export type TransitionSchedule<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = {
+  [V in DiscriminantValues<
+    TUnion,
+    TDiscriminant
+  > as CaseKey<V>]?: ScheduledTransition<
+    NarrowedReturnType<TUnion, TDiscriminant, V>,
+    TUnion
+  >;
+};
+
+/**
+ * Options for createDiscriminatedStore.
+ */
+export type DiscriminatedStoreOptions<
+  TUnion = never,
+  TDiscriminant extends DiscriminantPath<TUnion> & string = never,
+> = {
+  /**
+   * Name included in thrown errors.
+   */
+  name?: string;
+  /**
+   * Timed transitions per variant. A variant's timer starts when the store takes a
+   * value in it, and is cleared as soon as the value changes. Unavailable without
+   * type arguments, so the bare options type stays assignable to any store's options.
+   */
+  schedule?: [TDiscriminant] extends [never]
+    ? never
+    : TransitionSchedule<TUnion, TDiscriminant>;
+  /**
+   * The clock scheduled transitions run on. Defaults to the system clock.
+   */
+  clock?: Clock;
+};
+
+// The longest delay setTimeout supports; longer waits are split into several timers
+const MAX_DELAY = 2 ** 31 - 1;
+
+/**
+ * The narrowing semantics shared by stores and React contexts: reading the
+ * discriminant, matching values against expected value(s) or composite patterns,
+ * and describing mismatches.
+ */
+export function createMatcher(
+  discriminantKey: string,
+  contextName: string | undefined,
+) {
+  /**
+   * Reads the discriminant, following the path for nested discriminants.
+   */
+  function readDiscriminant(value: unknown): unknown {
+    return readPath(value, discriminantKey);
+  }
+
+  /**
+   * Normalizes a single expected value or an array of them into a list.
+   */
+  function toAcceptedValues(expected: unknown): readonly unknown[] {
+    return Array.isArray(expected) ? expected : [expected];
+  }
+
+  /**
+   * Whether a narrowing call was given a composite pattern rather than value(s).
+   */
+  function isPattern(
+    expected: unknown,
+  ): expected is Readonly<Record<string, unknown>> {
+    return (
+      typeof expected === "object" &&
+      expected !== null &&
+      !Array.isArray(expected)
+    );
+  }
+
+  /**
+   * Lists every key whose value isn't one of the expected values; empty when the value matches.
+   */
+  function findMismatches(
+    value: unknown,
+    expected: unknown,
+  ): DiscriminantMismatch[] {
+    if (isPattern(expected)) {
+      return Object.entries(expected).flatMap(([key, accepted]) => {
+        const actual = readPath(value, key);
+
+        return accepted === undefined || actual === accepted
+          ? []
+          : [{ discriminantKey: key, expected: [accepted], actual }];
+      });
+    }
+
+    const accepted = toAcceptedValues(expected);
+    const actual = readDiscriminant(value);
+
+    return accepted.includes(actual)
+      ? []
+      : [{ discriminantKey, expected: accepted, actual }];
+  }
+
+  /**
+   * Whether the value matches the expected value(s) or pattern.
+   */
+  function matches(value: unknown, expected: unknown): boolean {
+    return findMismatches(value, expected).length === 0;
+  }
+
+  /**
+   * Creates the error describing why a value didn't match, or returns null if it did.
+   */
+  function toMismatchError(
+    value: unknown,
+    expected: unknown,
+  ): DiscriminantMismatchError | null {
+    const [first, ...rest] = findMismatches(value, expected);
+
+    return first === undefined
+      ? null
+      : new DiscriminantMismatchError({
+          ...first,
+          mismatches: [first, ...rest],
+          contextName,
+        });
+  }
+
+  return {
+    readDiscriminant,
+    toAcceptedValues,
+    isPattern,
+    matches,
+    toMismatchError,
+  } as const;
+}
+
+/**
+ * Creates a framework-agnostic store for a discriminated union value, with the
+ * same narrowing and mismatch semantics as createDiscriminatedContext. Use it in
+ * plain modules, workers and tests, and pass it to a context's StoreProvider to
+ * share it with React.
+ *
+ * @param discriminantKey - The key used as the discriminant in the union type, or a dotted
+ *                          path to a nested key such as `'result.kind'`
+ * @param initial - The value the store starts with
+ * @param options - Optional settings: a name for error messages, and timed transitions with their clock
+ * @returns An object with get, set and subscribe functions, and is / expect to check and narrow the value
+ *
+ * @example
+ * const authStore = createDiscriminatedStore<AuthState, 'status'>('status', {
+ *   status: 'idle',
+ * });
+ *
+ * authStore.subscribe((auth) => console.log(auth.status));
+ * authStore.set({ status: 'authenticated', user: { name: 'Ada' } });
+ *
+ * if (authStore.is('authenticated')) {
+ *   const auth = authStore.expect('authenticated');
+ *   // auth is typed as: { status: 'authenticated'; user: { name: string } }
+ * }
+ *
+ * // Timed transitions, cleared when the variant is left:
+ * createDiscriminatedStore<AuthState, 'status'>('status', initial, {
+ *   schedule: {
+ *     locked: { at: (state) => state.unlockAt, to: () => ({ status: 'idle' }) },
+ *     authenticated: {
+ *       at: (state) => state.session.expiresAt.getTime() - 60_000,
+ *       to: (state) => ({ status: 'refreshing', user: state.user }),
+ *     },
+ *   },
+ * });
+ */
+export function createDiscriminatedStore<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+>(
+  discriminantKey: TDiscriminant,
+  initial: TUnion,
+  options: DiscriminatedStoreOptions<TUnion, TDiscriminant> = {},
+) {
+  type ValidValues = DiscriminantValues<TUnion, TDiscriminant>;
+
+  const { schedule = {}, clock = systemClock } = options;
+  const matcher = createMatcher(discriminantKey, options.name);
+  let current = initial;
+  const listeners = new Set<(value: TUnion) => void>();
+  // Values still to deliver to the listeners, in the order they were set
+  const pending: TUnion[] = [];
+  // The pending scheduled transition's timer, if any
+  let timer: { handle: unknown } | null = null;
+  let destroyed = false;
+
+  /**
+   * Clears the pending timer and starts the one declared for the current variant.
+   */
+  function scheduleTransition(): void {
+    if (timer !== null) {
+      clock.clearTimeout(timer.handle);
+      timer = null;
+    }
+
+    if (destroyed) {
+      return;
+    }
+
+    const variant = String(matcher.readDiscriminant(current));
+    const transition = Object.prototype.hasOwnProperty.call(
+      schedule,
+      variant,
+    )
+      ? (
+          schedule as Record<
+            string,
+            ScheduledTransition<TUnion, TUnion>
+          >
+        )[variant]
+      : undefined;
+    const at = transition?.at(current);
+
+    if (transition === undefined || at === undefined) {
+      return;
+    }
+
+    const from = current;
+    const due = toTimestamp(at);
+
+    const wait = () => {
+      const delay = due - clock.now();
+
+      timer = {
+        handle: clock.setTimeout(
+          () => {
+            timer = null;
+
+            if (delay > MAX_DELAY) {
+              wait();
+            } else {
+              set(transition.to(from));
+            }
+          },
+          Math.min(Math.max(delay, 0), MAX_DELAY),
+        ),
+      };
+    };
+
+    wait();
+  }
+
+  function get(): TUnion {
+    return current;
+  }
+
+  function set(value: TUnion): void {
+    if (Object.is(value, current)) {
+      return;
+    }
+
+    current = value;
+    scheduleTransition();
+    pending.push(value);
+
+    // A listener setting a value re-enters here; its value is delivered once
+    // every listener has seen this one, so they all see the values in order
+    if (pending.length > 1) {
+      return;
+    }
+
+    try {
+      for (const next of pending) {
+        listeners.forEach((listener) => listener(next));
+      }
+    } finally {
+      pending.length = 0;
+    }
+  }
+
+  function subscribe(listener: (value: TUnion) => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Cancels the pending scheduled transition and drops every listener. The store
+   * still holds its value, but no longer schedules transitions.
+   *
+   * @example
+   * afterEach(() => authStore.destroy());
+   */
+  function destroy(): void {
+    destroyed = true;
+    scheduleTransition();
+    listeners.clear();
+  }
+
+  scheduleTransition();
+
+  /**
+   * Whether the current value is in the expected variant(s), or matches the pattern.
+   * It doesn't narrow a value read with get(); use expect() for the narrowed value.
+   *
+   * @example
+   * authStore.is('authenticated');
+   * authStore.is(['loading', 'error']);
+   */
+  function is(
+    expected:
+      | ValidValues
+      | readonly ValidValues[]
+      | DiscriminantPattern<TUnion>,
+  ): boolean {
+    return matcher.matches(current, expected);
+  }
+
+  /**
+   * Returns the current value narrowed to the expected variant(s), as useContext does.
+   *
+   * @throws DiscriminantMismatchError if the current value doesn't match
+   *
+   * @example
+   * const auth = authStore.expect('authenticated');
+   * const admin = sessionStore.expect({ status: 'authenticated', role: 'admin' });
+   */
+  function expect<TValue extends ValidValues>(
+    expected: TValue | readonly TValue[],
+  ): NarrowedReturnType<TUnion, TDiscriminant, TValue>;
+  function expect<const TPattern extends PatternConstraint<TUnion>>(
+    expected: ExactPattern<TUnion, TPattern>,
+  ): PatternReturnType<TUnion, TPattern>;
+  function expect(
+    expected:
+      | ValidValues
+      | readonly ValidValues[]
+      | DiscriminantPattern<TUnion>,
+  ):
+    | NarrowedReturnType<TUnion, TDiscriminant, ValidValues>
+    | PatternReturnType<TUnion, DiscriminantPattern<TUnion>> {
+    const error = matcher.toMismatchError(current, expected);
+
+    if (error !== null) {
+      throw error;
+    }
+
+    return current as NarrowedReturnType<
+      TUnion,
+      TDiscriminant,
+      ValidValues
+    >;
+  }
+
+  return {
+    /**
+     * The discriminant key (or path) the store narrows on.
+     */
+    discriminantKey,
+    /**
+     * Returns the current value.
+     */
+    get,
+    /**
+     * Replaces the value, notifying subscribers unless it is the same value. Values
+     * set from a listener are delivered after the current one, in order.
+     */
+    set,
+    /**
+     * Calls the listener with every new value; returns a function that unsubscribes.
+     */
+    subscribe,
+    /**
+     * Checks the current value against discriminant value(s) or a pattern, without
+     * narrowing it.
+     */
+    is,
+    /**
+     * Narrows the current value, throwing a DiscriminantMismatchError on a mismatch.
+     */
+    expect,
+    /**
+     * Cancels the pending scheduled transition's timer and unsubscribes everyone.
+     */
+    destroy,
+  } as const;
+}
+
+/**
+ * Everything createDiscriminatedStore returns, e.g. for a StoreProvider's `store` prop.
+ */
+export type DiscriminatedStore<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+> = ReturnType<typeof createDiscriminatedStore<TUnion, TDiscriminant>>;
@@ -0,0 +1,267 @@
+import { systemClock, type Clock } from "./clock.js";
+import type {
+  DiscriminantPath,
+  DiscriminantValues,
+} from "./context.js";
+import { readPath } from "./path.js";
+import { parseValue, stringifyValue } from "./serialization.js";
+import type { DiscriminatedStore } from "./store.js";
+
+/**
+ * How a tab resolves a change from another tab that is older than its own latest
+ * change, which happens when two tabs change the value at about the same time.
+ *
+ * - `'last-write-wins'` keeps whichever change was made last.
+ * - `'remote-wins'` always takes the other tab's change.
+ * - A function receives the local and remote values and returns the value to keep.
+ *   A value other than the local one is broadcast, so every tab settles on it.
+ */
+export type ConflictPolicy<TUnion> =
+  | "last-write-wins"
+  | "remote-wins"
+  | ((local: TUnion, remote: TUnion) => TUnion);
+
+/**
+ * Options for syncStore.
+ */
+export type StoreSyncOptions<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+> = {
+  /**
+   * Name shared by the tabs that sync with each other: the BroadcastChannel name,
+   * or the `localStorage` key used by the storage transport.
+   */
+  channel: string;
+  /**
+   * The discriminant values that propagate. Values in any other variant are
+   * neither broadcast nor accepted from other tabs. Defaults to every variant.
+   */
+  variants?: readonly DiscriminantValues<TUnion, TDiscriminant>[];
+  /**
+   * How conflicting changes are resolved. Defaults to `'last-write-wins'`.
+   */
+  conflict?: ConflictPolicy<TUnion>;
+  /**
+   * How tabs talk to each other. Defaults to BroadcastChannel where it is
+   * available, and to `storage` events on `localStorage` otherwise.
+   */
+  transport?: "broadcast-channel" | "storage";
+  /**
+   * The clock changes are timestamped with. Defaults to the system clock.
+   */
+  clock?: Clock;
+};
+
+/**
+ * A change, as broadcast to other tabs.
+ */
+type SyncMessage = {
+  source: string;
+  at: number;
+  value: unknown;
+};
+
+/**
+ * Sends serialized messages to the other tabs and delivers theirs.
+ */
+type Transport = {
+  post(message: string): void;
+  close(): void;
+};
+
+/**
+ * Opens the requested transport, falling back from BroadcastChannel to storage
+ * events. Without either, as on the server, messages go nowhere.
+ */
+function openTransport(
+  channel: string,
+  preferred: "broadcast-channel" | "storage" | undefined,
+  receive: (message: string) => void,
+): Transport {
+  if (
+    preferred !== "storage" &&
+    typeof BroadcastChannel !== "undefined"
+  ) {
+    const broadcast = new BroadcastChannel(channel);
+    const onMessage = (event: MessageEvent) => {
+      if (typeof event.data === "string") {
+        receive(event.data);
+      }
+    };
+
+    broadcast.addEventListener("message", onMessage);
+
+    return {
+      post: (message) => broadcast.postMessage(message),
+      close: () => {
+        broadcast.removeEventListener("message", onMessage);
+        broadcast.close();
+      },
+    };
+  }
+
+  if (
+    typeof window !== "undefined" &&
+    typeof localStorage !== "undefined"
+  ) {
+    // Storage events only fire in the other tabs, and only when the stored text changes,
+    // which the source and timestamp in every message guarantee
+    const onStorage = (event: StorageEvent) => {
+      if (event.key === channel && event.newValue !== null) {
+        receive(event.newValue);
+      }
+    };
+
+    window.addEventListener("storage", onStorage);
+
+    return {
+      post: (message) => localStorage.setItem(channel, message),
+      close: () => window.removeEventListener("storage", onStorage),
+    };
+  }
+
+  return { post: () => {}, close: () => {} };
+}
+
+/**
+ * Keeps a store in sync across the tabs of a browser. Changes to propagating
+ * variants are broadcast, and changes broadcast by other tabs are applied, over
+ * BroadcastChannel or, where it is missing, `storage` events. Only the variants
+ * listed in `variants` propagate, so e.g. a logout can reach every tab while
+ * in-flight states stay local.
+ *
+ * Changes are timestamped. A change older than the tab's own latest one is a
+ * conflict, resolved by the `conflict` policy.
+ *
+ * @param store - The store to sync, from createDiscriminatedStore
+ * @param options - The channel name, propagating variants, conflict policy, transport and clock
+ * @returns A function that stops syncing and closes the channel
+ *
+ * @example
+ * const authStore = createDiscriminatedStore<AuthState, 'status'>('status', {
+ *   status: 'idle',
+ * });
+ *
+ * const stop = syncStore(authStore, {
+ *   channel: 'auth',
+ *   variants: ['idle', 'authenticated'],
+ * });
+ *
+ * // Logging out here moves every other tab to idle too:
+ * authStore.set({ status: 'idle' });
+ */
+export function syncStore<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion> & string,
+>(
+  store: DiscriminatedStore<TUnion, TDiscriminant>,
+  options: StoreSyncOptions<TUnion, TDiscriminant>,
+): () => void {
+  const {
+    channel,
+    variants,
+    conflict = "last-write-wins",
+    clock = systemClock,
+  } = options;
+  const source = Math.random().toString(36).slice(2);
+  // The latest change this tab made or applied, for detecting conflicts
+  let latest: { at: number; source: string } | null = null;
+  // Set while applying another tab's change, so that it isn't broadcast back
+  let applying = false;
+
+  /**
+   * Whether the value's variant propagates between tabs.
+   */
+  function propagates(value: unknown): value is TUnion {
+    return (
+      typeof value === "object" &&
+      value !== null &&
+      (variants === undefined ||
+        (variants as readonly unknown[]).includes(
+          readPath(value, store.discriminantKey),
+        ))
+    );
+  }
+
+  /**
+   * Whether a change is older than the latest one; equal timestamps are ordered by source.
+   */
+  function isStale(message: SyncMessage): boolean {
+    return (
+      latest !== null &&
+      (message.at < latest.at ||
+        (message.at === latest.at && message.source < latest.source))
+    );
+  }
+
+  function broadcast(value: TUnion): void {
+    latest = { at: clock.now(), source };
+    transport.post(
+      stringifyValue({
+        source,
+        at: latest.at,
+        value,
+      } satisfies SyncMessage),
+    );
+  }
+
+  function apply(value: TUnion): void {
+    applying = true;
+
+    try {
+      store.set(value);
+    } finally {
+      applying = false;
+    }
+  }
+
+  function receive(text: string): void {
+    let message: SyncMessage;
+
+    try {
+      message = parseValue(text) as SyncMessage;
+    } catch {
+      return;
+    }
+
+    if (
+      typeof message?.at !== "number" ||
+      typeof message.source !== "string" ||
+      message.source === source ||
+      !propagates(message.value)
+    ) {
+      return;
+    }
+
+    const remote = message.value;
+
+    if (!isStale(message)) {
+      latest = { at: message.at, source: message.source };
+      apply(remote);
+    } else if (conflict === "remote-wins") {
+      apply(remote);
+    } else if (typeof conflict === "function") {
+      const local = store.get();
+      const resolved = conflict(local, remote);
+
+      if (!Object.is(resolved, local)) {
+        // Set as a change of this tab's own, so that it is broadcast
+        store.set(resolved);
+      }
+    }
+  }
+
+  const transport = openTransport(channel, options.transport, receive);
+
+  const unsubscribe = store.subscribe((value) => {
+    if (!applying && propagates(value)) {
+      broadcast(value);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    transport.close();
+  };
+}
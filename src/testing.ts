@@ -0,0 +1,280 @@
+import {
+  createElement,
+  type ReactElement,
+  type ReactNode,
+} from "react";
+import {
+  render,
+  renderHook,
+  type RenderHookOptions,
+  type RenderHookResult,
+  type RenderOptions,
+  type RenderResult,
+} from "@testing-library/react";
+import type {
+  CaseKey,
+  DiscriminantValues,
+  DiscriminatedContext,
+  NarrowedReturnType,
+} from "./context.js";
+
+export { createManualClock } from "./clock.js";
+
+/**
+ * The fields of a variant, without its discriminant.
+ */
+type VariantFields<
+  TUnion,
+  TDiscriminant extends keyof TUnion & string,
+  TValue extends DiscriminantValues<TUnion, TDiscriminant>,
+> = Omit<
+  NarrowedReturnType<TUnion, TDiscriminant, TValue>,
+  TDiscriminant
+>;
+
+/**
+ * Default fields for every discriminant value. Every value needs an entry, so
+ * adding a variant to the union is a compile error until it has a fixture.
+ *
+ * @example
+ * const fixtures: VariantFixtures<AuthState, 'status'> = {
+ *   idle: {},
+ *   authenticated: { user: { name: 'Ada' } },
+ *   error: { error: 'Invalid credentials' },
+ * };
+ */
+export type VariantFixtures<
+  TUnion,
+  TDiscriminant extends keyof TUnion & string,
+> = {
+  [V in DiscriminantValues<
+    TUnion,
+    TDiscriminant
+  > as CaseKey<V>]: VariantFields<TUnion, TDiscriminant, V>;
+};
+
+/**
+ * What withFixtures adds to a context.
+ */
+type FixtureHelpers<
+  TUnion,
+  TDiscriminant extends keyof TUnion & string,
+> = {
+  /**
+   * Builds a value in a variant from its fixture and overrides.
+   */
+  readonly build: <
+    TValue extends DiscriminantValues<TUnion, TDiscriminant>,
+  >(
+    variant: TValue,
+    overrides?: Partial<VariantFields<TUnion, TDiscriminant, TValue>>,
+  ) => NarrowedReturnType<TUnion, TDiscriminant, TValue>;
+  /**
+   * Every discriminant value: the context's declared `values`, or else the
+   * fixture keys, in the order they were given. Keys are strings, so contexts
+   * with numeric or boolean discriminants need `values` declared.
+   */
+  readonly variants: readonly DiscriminantValues<
+    TUnion,
+    TDiscriminant
+  >[];
+};
+
+/**
+ * A context with fixtures, as returned by withFixtures.
+ */
+export type ContextWithFixtures<
+  TUnion,
+  TDiscriminant extends keyof TUnion & string,
+> = DiscriminatedContext<TUnion, TDiscriminant> &
+  FixtureHelpers<TUnion, TDiscriminant>;
+
+/**
+ * Adds fixtures to a discriminated context, for use with renderInVariant and
+ * eachVariant. Fixtures give the default fields of each variant; the discriminant
+ * itself is filled in.
+ *
+ * Only top-level discriminant keys are supported.
+ *
+ * When the context declares its discriminant `values`, the fixtures are checked
+ * against them at runtime too, so a variant added without a fixture fails even
+ * where tests run without type-checking.
+ *
+ * @param context - The object returned by createDiscriminatedContext (or createDiscriminatedMachine)
+ * @param fixtures - Default fields for every discriminant value
+ * @returns The context, plus a build function and the list of discriminant values
+ * @throws Error if the context declares `values` and the fixtures don't match them
+ *
+ * @example
+ * const auth = withFixtures(AuthContext, {
+ *   idle: {},
+ *   authenticated: { user: { name: 'Ada' } },
+ *   error: { error: 'Invalid credentials' },
+ * });
+ *
+ * auth.build('error', { error: 'Timeout' });
+ * // { status: 'error', error: 'Timeout' }
+ */
+export function withFixtures<
+  TUnion,
+  TDiscriminant extends keyof TUnion & string,
+  TContext extends DiscriminatedContext<TUnion, TDiscriminant>,
+>(
+  context: TContext & DiscriminatedContext<TUnion, TDiscriminant>,
+  fixtures: VariantFixtures<TUnion, TDiscriminant>,
+): TContext & FixtureHelpers<TUnion, TDiscriminant> {
+  type ValidValues = DiscriminantValues<TUnion, TDiscriminant>;
+
+  const defaults = fixtures as Readonly<Record<string, object>>;
+  const keys = Object.keys(defaults);
+  const declared = context.values?.map(String);
+
+  if (declared !== undefined) {
+    const problems = [
+      ...declared
+        .filter((value) => !keys.includes(value))
+        .map((value) => `no fixture for ${value}`),
+      ...keys
+        .filter((key) => !declared.includes(key))
+        .map((key) => `a fixture for unknown variant ${key}`),
+    ];
+
+    if (problems.length > 0) {
+      throw new Error(
+        `Fixtures don't match the context's values: ${problems.join(", ")}`,
+      );
+    }
+  }
+
+  const variants =
+    context.values ?? (keys as readonly unknown[] as readonly ValidValues[]);
+
+  /**
+   * Builds a value in a variant from its fixture, with the given fields replaced.
+   *
+   * @example
+   * auth.build('authenticated', { user: { name: 'Grace' } });
+   */
+  function build<TValue extends ValidValues>(
+    variant: TValue,
+    overrides: Partial<
+      VariantFields<TUnion, TDiscriminant, TValue>
+    > = {},
+  ): NarrowedReturnType<TUnion, TDiscriminant, TValue> {
+    return {
+      ...defaults[String(variant)],
+      ...overrides,
+      [context.discriminantKey]: variant,
+    } as NarrowedReturnType<TUnion, TDiscriminant, TValue>;
+  }
+
+  return { ...context, build, variants };
+}
+
+/**
+ * What renderInVariant returns: the value, and Testing Library helpers providing it.
+ */
+type VariantRender<TValue> = {
+  /**
+   * The value provided to the context.
+   */
+  readonly value: TValue;
+  /**
+   * Wrapper providing the value, for Testing Library's `wrapper` option.
+   */
+  readonly wrapper: (props: { children?: ReactNode }) => ReactElement;
+  /**
+   * Testing Library's render, inside the wrapper.
+   */
+  readonly render: (
+    ui: ReactElement,
+    options?: Omit<RenderOptions, "wrapper">,
+  ) => RenderResult;
+  /**
+   * Testing Library's renderHook, inside the wrapper.
+   */
+  readonly renderHook: <TResult, TProps>(
+    callback: (props: TProps) => TResult,
+    options?: Omit<RenderHookOptions<TProps>, "wrapper">,
+  ) => RenderHookResult<TResult, TProps>;
+};
+
+/**
+ * Renders in a given variant: builds the value from the context's fixtures and
+ * provides it through the context's StoreProvider, so useContext, useSelector
+ * and every other consumer see it.
+ *
+ * @param context - A context with fixtures, from withFixtures
+ * @param variant - The discriminant value to render in
+ * @param overrides - Fields replacing the fixture's
+ * @returns The value, a wrapper for Testing Library, and render / renderHook bound to it
+ *
+ * @example
+ * const { render } = renderInVariant(auth, 'error', { error: 'Timeout' });
+ * const { getByText } = render(<LoginForm />);
+ * getByText('Timeout');
+ */
+export function renderInVariant<
+  TUnion,
+  TDiscriminant extends keyof TUnion & string,
+  const TValue extends DiscriminantValues<TUnion, TDiscriminant>,
+>(
+  context: ContextWithFixtures<TUnion, TDiscriminant>,
+  variant: TValue,
+  overrides?: Partial<VariantFields<TUnion, TDiscriminant, TValue>>,
+): VariantRender<NarrowedReturnType<TUnion, TDiscriminant, TValue>> {
+  const value = context.build(variant, overrides);
+
+  function wrapper({
+    children,
+  }: {
+    children?: ReactNode;
+  }): ReactElement {
+    return createElement(
+      context.StoreProvider,
+      { value: value as TUnion },
+      children,
+    );
+  }
+
+  return {
+    value,
+    wrapper,
+    render: (ui, options) => render(ui, { ...options, wrapper }),
+    renderHook: (callback, options) =>
+      renderHook(callback, { ...options, wrapper }),
+  };
+}
+
+/**
+ * Calls a test body once per discriminant value, with that variant's fixture:
+ * the context's declared `values`, or else the fixture keys. Since fixtures are
+ * required for every value, a variant added to the union without one fails
+ * type-checking, and, when `values` are declared, withFixtures throws for it at
+ * runtime, instead of it going untested.
+ *
+ * @param context - A context with fixtures, from withFixtures
+ * @param body - Called with each discriminant value and its built fixture
+ *
+ * @example
+ * eachVariant(auth, (variant, value) => {
+ *   it(`renders the ${variant} state`, () => {
+ *     const { render } = renderInVariant(auth, variant);
+ *     render(<AuthStatus />);
+ *   });
+ * });
+ */
+export function eachVariant<
+  TUnion,
+  TDiscriminant extends keyof TUnion & string,
+>(
+  context: ContextWithFixtures<TUnion, TDiscriminant>,
+  body: (
+    variant: DiscriminantValues<TUnion, TDiscriminant>,
+    value: TUnion,
+  ) => void,
+): void {
+  for (const variant of context.variants) {
+    body(variant, context.build(variant) as TUnion);
+  }
+}
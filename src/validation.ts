@@ -0,0 +1,114 @@
+import type {
+  CaseKey,
+  DiscriminantPath,
+  DiscriminantValues,
+  NarrowedReturnType,
+} from "./context.js";
+import type { ValidationIssue } from "./errors.js";
+import { readPath } from "./path.js";
+
+/**
+ * The part of the Standard Schema interface (https://standardschema.dev) needed
+ * to validate a value. Schemas from Zod, Valibot, ArkType and others implement it.
+ */
+export type StandardSchemaV1 = {
+  readonly "~standard": {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) => StandardSchemaResult | Promise<StandardSchemaResult>;
+  };
+};
+
+/**
+ * A Standard Schema validation result: failures carry a list of issues.
+ */
+type StandardSchemaResult = {
+  readonly issues?:
+    | readonly {
+        readonly message: string;
+        readonly path?:
+          | readonly (PropertyKey | { readonly key: PropertyKey })[]
+          | undefined;
+      }[]
+    | undefined;
+};
+
+/**
+ * Maps every discriminant value to a Standard Schema or a predicate receiving
+ * the narrowed variant.
+ */
+export type VariantValidators<
+  TUnion,
+  TDiscriminant extends DiscriminantPath<TUnion>,
+> = {
+  [V in DiscriminantValues<TUnion, TDiscriminant> as CaseKey<V>]:
+    | StandardSchemaV1
+    | ((
+        value: NarrowedReturnType<TUnion, TDiscriminant, V>,
+      ) => boolean);
+};
+
+/**
+ * Validates a value against the validator for its variant. Returns the issues
+ * found, or a promise for them when the schema validates asynchronously.
+ */
+export function validateVariant(
+  value: unknown,
+  discriminantKey: string,
+  validators: Readonly<Record<string, unknown>>,
+): readonly ValidationIssue[] | Promise<readonly ValidationIssue[]> {
+  const variant = readPath(value, discriminantKey);
+
+  if (variant === undefined) {
+    return [
+      {
+        message: "Missing discriminant",
+        path: discriminantKey.split("."),
+      },
+    ];
+  }
+
+  const validator = Object.prototype.hasOwnProperty.call(
+    validators,
+    String(variant),
+  )
+    ? (validators[String(variant)] as
+        | StandardSchemaV1
+        | ((value: unknown) => boolean))
+    : undefined;
+
+  if (validator === undefined) {
+    return [
+      {
+        message: `Unknown variant ${JSON.stringify(variant)}`,
+        path: discriminantKey.split("."),
+      },
+    ];
+  }
+
+  if (typeof validator === "function") {
+    return validator(value)
+      ? []
+      : [{ message: "Rejected by the variant's predicate", path: [] }];
+  }
+
+  const result = validator["~standard"].validate(value);
+
+  return result instanceof Promise
+    ? result.then(toIssues)
+    : toIssues(result);
+}
+
+/**
+ * Converts Standard Schema issues, whose path segments may be objects, to plain paths.
+ */
+function toIssues(result: StandardSchemaResult): ValidationIssue[] {
+  return (result.issues ?? []).map((issue) => ({
+    message: issue.message,
+    path: (issue.path ?? []).map((segment) =>
+      typeof segment === "object" ? segment.key : segment,
+    ),
+  }));
+}